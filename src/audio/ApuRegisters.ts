@@ -0,0 +1,163 @@
+import type { ConsoleChannel, ConsoleProfile } from '@/types/console'
+import type { ChannelFrame } from './ChipSequencer'
+
+/**
+ * One register write: offset from the chip's first register ($4000 on the NES, $FF10 on the Game Boy) and value
+ */
+export type RegisterWrite = [register: number, value: number]
+
+// A register value a frame needs; written when it changes or when the channel has to restart
+interface RegisterValue {
+  register: number
+  value: number
+  restart?: boolean        // Write even if unchanged (a note starts)
+  restartWith?: number     // Also restart when this register is written in the same frame
+  restartFlag?: number     // Bits added to the value when written to restart (the Game Boy trigger bit)
+}
+
+// First register of each channel
+const NES_BASES: Record<string, number> = { pulse1: 0x00, pulse2: 0x04, triangle: 0x08, noise: 0x0C }
+const GAMEBOY_BASES: Record<string, number> = { pulse1: 0x00, pulse2: 0x05, wave: 0x0A, noise: 0x0F }
+
+// Game Boy wave RAM ($FF30-$FF3F)
+const WAVE_RAM = 0x20
+
+/**
+ * Register writes that make the NES 2A03 or Game Boy APU play a sequence of channel frames
+ */
+export class ApuRegisters {
+  /**
+   * Writes that switch the sound chip on before the first frame
+   */
+  static init(profile: ConsoleProfile): RegisterWrite[] {
+    if (profile.id === 'gameboy') {
+      // Sound on, full master volume, every channel to both speakers, pulse 1 sweep off
+      return [[0x16, 0x80], [0x14, 0x77], [0x15, 0xFF], [0x00, 0x00]]
+    }
+    // Tone and noise channels on, frame IRQ off, pulse sweeps disabled
+    return [[0x15, 0x0F], [0x17, 0x40], [0x01, 0x08], [0x05, 0x08]]
+  }
+
+  /**
+   * Writes for one frame of every channel
+   * shadow holds the last value written to each register and is updated
+   */
+  static frame(profile: ConsoleProfile, frames: ChannelFrame[], shadow: Map<number, number>): RegisterWrite[] {
+    const writes: RegisterWrite[] = []
+    const written = new Set<number>()
+
+    profile.channels.forEach((channel, index) => {
+      const values = profile.id === 'gameboy'
+        ? this.gameBoyChannel(channel, frames[index], shadow)
+        : this.nesChannel(channel, frames[index])
+
+      for (const { register, value, restart, restartWith, restartFlag = 0 } of values) {
+        const restarting = restart || (restartWith !== undefined && written.has(restartWith))
+        if (!restarting && shadow.get(register) === value) continue
+
+        writes.push([register, restarting ? value | restartFlag : value])
+        shadow.set(register, value)
+        written.add(register)
+      }
+    })
+
+    return writes
+  }
+
+  /**
+   * 2A03: constant volume with the length counter halted, so notes last until silenced
+   */
+  private static nesChannel(channel: ConsoleChannel, frame: ChannelFrame): RegisterValue[] {
+    const base = NES_BASES[channel.id]
+    if (base === undefined) return []
+
+    const timer = Math.max(0, frame.period - 1)
+    const timerLow = timer & 0xFF
+    const timerHigh = ((timer >> 8) & 0x07) | 0x08
+
+    switch (channel.kind) {
+      case 'pulse':
+        return [
+          { register: base, value: (frame.duty << 6) | 0x30 | frame.volume },
+          { register: base + 2, value: timerLow },
+          { register: base + 3, value: timerHigh, restart: frame.trigger },
+        ]
+      case 'triangle':
+        // No volume: the linear counter switches the channel on or off
+        return [
+          { register: base, value: frame.volume > 0 ? 0xFF : 0x80 },
+          { register: base + 2, value: timerLow },
+          { register: base + 3, value: timerHigh, restart: frame.trigger, restartWith: base },
+        ]
+      case 'noise':
+        return [
+          { register: base, value: 0x30 | frame.volume },
+          { register: base + 2, value: (frame.shortNoise ? 0x80 : 0) | frame.noise },
+          { register: base + 3, value: 0x08, restart: frame.trigger },
+        ]
+      default:
+        return []
+    }
+  }
+
+  /**
+   * DMG: volume lives in the envelope register, which only takes effect when the channel restarts
+   */
+  private static gameBoyChannel(channel: ConsoleChannel, frame: ChannelFrame, shadow: Map<number, number>): RegisterValue[] {
+    const base = GAMEBOY_BASES[channel.id]
+    if (base === undefined) return []
+
+    const frequency = 2048 - frame.period
+    const frequencyLow = frequency & 0xFF
+    const frequencyHigh = (frequency >> 8) & 0x07
+
+    switch (channel.kind) {
+      case 'pulse':
+        return [
+          { register: base + 1, value: frame.duty << 6 },
+          { register: base + 2, value: frame.volume << 4 },
+          { register: base + 3, value: frequencyLow },
+          { register: base + 4, value: frequencyHigh, restart: frame.trigger, restartWith: base + 2, restartFlag: 0x80 },
+        ]
+      case 'wave': {
+        // Wave RAM can only be written with the channel's DAC off
+        const bytes = Array.from({ length: 16 }, (_, i) => ((frame.wave[i * 2] ?? 0) << 4) | (frame.wave[i * 2 + 1] ?? 0))
+        const newTable = frame.wave.length > 0 && bytes.some((byte, i) => shadow.get(WAVE_RAM + i) !== byte)
+        const table: RegisterValue[] = newTable
+          ? [
+              { register: base, value: 0x00, restart: true },
+              ...bytes.map((value, i) => ({ register: WAVE_RAM + i, value, restart: true })),
+            ]
+          : []
+
+        return [
+          ...table,
+          { register: base, value: 0x80 },
+          { register: base + 2, value: this.waveVolume(frame.volume) },
+          { register: base + 3, value: frequencyLow },
+          { register: base + 4, value: frequencyHigh, restart: frame.trigger, restartWith: base, restartFlag: 0x80 },
+        ]
+      }
+      case 'noise':
+        return [
+          { register: base + 2, value: frame.volume << 4 },
+          // One noise rate per shift, with the clock divider at 1
+          { register: base + 3, value: (frame.noise << 4) | (frame.shortNoise ? 0x08 : 0) | 0x01 },
+          { register: base + 4, value: 0x00, restart: frame.trigger, restartWith: base + 2, restartFlag: 0x80 },
+        ]
+      default:
+        return []
+    }
+  }
+
+  /**
+   * The wave channel has four volumes: silent, 25%, 50% and 100%
+   */
+  private static waveVolume(volume: number): number {
+    const level = volume / 15
+    if (level === 0) return 0x00
+    if (level >= 0.75) return 0x20
+    if (level >= 0.375) return 0x40
+    return 0x60
+  }
+}
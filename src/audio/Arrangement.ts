@@ -0,0 +1,113 @@
+import type { Note } from '@/types/note'
+import type { Pattern, Track } from '@/types/project'
+
+/**
+ * Patterns and the order they play in
+ */
+export interface SongArrangement {
+  patterns: Pattern[]
+  order: string[]          // Pattern ids; a pattern may appear any number of times
+}
+
+/**
+ * One entry of the order list placed on the song timeline
+ */
+export interface ArrangementSlot {
+  pattern: Pattern
+  start: number            // Song beat where the pattern starts
+}
+
+/**
+ * Resolves a pattern arrangement into song positions
+ * Shared by live playback and offline rendering so both play the same song
+ */
+export class Arrangement {
+  /**
+   * Lay the order list out on the song timeline (unknown pattern ids are skipped)
+   */
+  static getSlots(arrangement: SongArrangement): ArrangementSlot[] {
+    const slots: ArrangementSlot[] = []
+    let start = 0
+
+    for (const patternId of arrangement.order) {
+      const pattern = arrangement.patterns.find(p => p.id === patternId)
+      if (!pattern) continue
+
+      slots.push({ pattern, start })
+      start += pattern.length
+    }
+
+    return slots
+  }
+
+  /**
+   * Total song length in 16th steps
+   */
+  static getLength(arrangement: SongArrangement): number {
+    return this.getSlots(arrangement).reduce((sum, slot) => sum + slot.pattern.length, 0)
+  }
+
+  /**
+   * Index of the slot playing at a song beat, or -1 past the end
+   */
+  static getSlotIndexAt(arrangement: SongArrangement, beat: number): number {
+    return this.getSlots(arrangement).findIndex(
+      slot => beat >= slot.start && beat < slot.start + slot.pattern.length
+    )
+  }
+
+  /**
+   * Slot playing at a song beat
+   */
+  static getSlotAt(arrangement: SongArrangement, beat: number): ArrangementSlot | undefined {
+    return this.getSlots(arrangement).find(
+      s => beat >= s.start && beat < s.start + s.pattern.length
+    )
+  }
+
+  /**
+   * Position of a song beat inside a pattern, or null while another pattern plays there
+   */
+  static toPatternBeat(arrangement: SongArrangement, beat: number, patternId: string): number | null {
+    const slot = this.getSlotAt(arrangement, beat)
+    return slot?.pattern.id === patternId ? beat - slot.start : null
+  }
+
+  /**
+   * Notes of a track starting at a song beat, positioned in song time
+   */
+  static getNotesAt(arrangement: SongArrangement, trackId: string, beat: number): Note[] {
+    const slot = this.getSlotAt(arrangement, beat)
+    if (!slot) return []
+
+    return this.placeNotes(slot, trackId).filter(n => n.startBeat === beat)
+  }
+
+  /**
+   * Expand the arrangement into tracks holding every note of the song
+   */
+  static arrangeTracks(tracks: Track[], arrangement: SongArrangement): Track[] {
+    const slots = this.getSlots(arrangement)
+
+    return tracks.map(track => ({
+      ...track,
+      notes: slots.flatMap(slot => this.placeNotes(slot, track.id)),
+    }))
+  }
+
+  /**
+   * Move a pattern's notes to the slot position, dropping anything past the
+   * pattern end and cutting notes that would ring into the next pattern
+   */
+  private static placeNotes(slot: ArrangementSlot, trackId: string): Note[] {
+    const { pattern, start } = slot
+
+    return (pattern.notes[trackId] ?? [])
+      .filter(n => n.startBeat >= 0 && n.startBeat < pattern.length)
+      .map(n => ({
+        ...n,
+        startBeat: start + n.startBeat,
+        duration: Math.min(n.duration, pattern.length - n.startBeat),
+      }))
+  }
+}
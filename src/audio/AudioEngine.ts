@@ -1,9 +1,32 @@
-import { ChiptuneOscillator } from './ChiptuneOscillator'
+import { ChiptuneOscillator, type HeldVoice } from './ChiptuneOscillator'
+import { ChipEffects } from './ChipEffects'
 import { Scheduler } from './Scheduler'
 import type { Note } from '@/types/note'
 import type { InstrumentConfig } from '@/types/instrument'
 import type { Track } from '@/types/project'
-import { AudioRenderer, type RenderOptions } from './AudioRenderer'
+import type { AutomationLane } from '@/types/automation'
+import type { DrumKit, DrumPad } from '@/types/drumKit'
+import type { ConsoleProfile, HardwareVoice } from '@/types/console'
+import { getDrumPad } from '@/data/drumKits'
+import { getConsoleProfile } from '@/data/consoleProfiles'
+import { ConsoleChip } from './ConsoleChip'
+import { AudioRenderer, type AudioFormat, type RenderOptions } from './AudioRenderer'
+import { Arrangement, type SongArrangement } from './Arrangement'
+import { Automation } from './Automation'
+import { ZipWriter, type ZipEntry } from './ZipWriter'
+
+export interface ExportAudioOptions extends RenderOptions {
+  format: AudioFormat
+  filename: string          // Without extension
+  bitrate?: number          // Ogg Opus bits per second
+  splitIntro?: boolean      // Download the intro and the loop body as separate files
+}
+
+export interface PreviewOptions {
+  velocity?: number         // 0-1
+  hold?: boolean            // Sustain until releasePreview (live keyboard play)
+  hardware?: HardwareVoice  // Console channel to preview on
+}
 
 /**
  * Main audio engine singleton
@@ -15,8 +38,13 @@ export class AudioEngine {
   private context: AudioContext | null = null
   private masterGain: GainNode | null = null
   private compressor: DynamicsCompressorNode | null = null
+  private metronomeGain: GainNode | null = null
   private oscillator: ChiptuneOscillator | null = null
   private _scheduler: Scheduler | null = null
+  private consoleProfile: ConsoleProfile = getConsoleProfile('free')
+
+  // Preview notes held down on a keyboard, by pitch
+  private heldPreviews: Map<number, HeldVoice> = new Map()
 
   private isInitialized = false
 
@@ -49,12 +77,17 @@ export class AudioEngine {
 
     // Set up master bus chain: instruments -> compressor -> gain -> destination
     this.setupMasterBus()
+    this.setConsoleProfile(this.consoleProfile)
+
+    // Register effect worklets (bitcrush is bypassed if this fails)
+    await ChipEffects.loadWorklets(this.context)
 
     // Create oscillator (connected to compressor input)
     this.oscillator = new ChiptuneOscillator(this.context, this.compressor!)
 
-    // Create scheduler
+    // Create scheduler (metronome and count-in clicks come back through it)
     this._scheduler = new Scheduler(this.context)
+    this._scheduler.setClickCallback((time, accent) => this.playClick(time, accent))
 
     this.isInitialized = true
 
@@ -85,6 +118,12 @@ export class AudioEngine {
     // Connect chain
     this.compressor.connect(this.masterGain)
     this.masterGain.connect(this.context.destination)
+
+    // Metronome has its own volume and skips the master bus, so it never
+    // squeezes the compressor or shows on the visualizer
+    this.metronomeGain = this.context.createGain()
+    this.metronomeGain.gain.value = 0.6
+    this.metronomeGain.connect(this.context.destination)
   }
 
   /**
@@ -136,10 +175,54 @@ export class AudioEngine {
     return this.masterGain?.gain.value ?? 0.8
   }
 
+  /**
+   * Play through a console's channels and limits ('free' lifts them)
+   * Console mixers have no compressor, so the master bus stops squeezing
+   */
+  setConsoleProfile(profile: ConsoleProfile): void {
+    this.consoleProfile = profile
+    if (!this.compressor) return
+
+    const isHardware = profile.channels.length > 0
+    this.compressor.threshold.value = isHardware ? 0 : -10
+    this.compressor.ratio.value = isHardware ? 1 : 4
+  }
+
+  /**
+   * Set metronome volume
+   */
+  setMetronomeVolume(volume: number): void {
+    if (this.metronomeGain) {
+      this.metronomeGain.gain.value = Math.max(0, Math.min(1, volume))
+    }
+  }
+
+  /**
+   * Play a metronome click; downbeats are higher and louder
+   * Only the live context has a metronome bus, so clicks never reach exports
+   */
+  playClick(time: number, accent: boolean): void {
+    if (!this.context || !this.metronomeGain) return
+
+    const osc = this.context.createOscillator()
+    const envelope = this.context.createGain()
+
+    osc.type = 'square'
+    osc.frequency.value = accent ? 1760 : 1320
+    envelope.gain.setValueAtTime(accent ? 0.5 : 0.3, time)
+    envelope.gain.exponentialRampToValueAtTime(0.001, time + 0.05)
+
+    osc.connect(envelope)
+    envelope.connect(this.metronomeGain)
+    osc.start(time)
+    osc.stop(time + 0.06)
+  }
+
   /**
    * Play a single note with instrument configuration
+   * Notes sharing a channel (track id) glide into each other
    */
-  playNote(note: Note, time: number, config: InstrumentConfig): void {
+  playNote(note: Note, time: number, config: InstrumentConfig, channel?: string, hardware?: HardwareVoice): void {
     if (!this.oscillator || !this.context) return
 
     const duration = this._scheduler?.durationToTime(note.duration) ?? 0.2
@@ -150,32 +233,45 @@ export class AudioEngine {
       gain: config.gain * note.velocity,
     }
 
-    this.oscillator.playNote(note.pitch, duration, time, noteConfig)
+    this.oscillator.playNote(note.pitch, duration, time, noteConfig, {
+      channel,
+      tempo: this._scheduler?.getTempo(),
+      effect: note.effect,
+      hardware,
+    })
   }
 
   /**
    * Play a drum hit
    */
   playDrum(
-    drumType: 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot',
+    pad: DrumPad,
     time: number,
-    velocity: number
+    velocity: number,
+    hardware?: HardwareVoice
   ): void {
     if (!this.oscillator) return
-    this.oscillator.playDrum(drumType, time, velocity)
+    this.oscillator.playDrum(pad, time, velocity, hardware)
   }
 
   /**
    * Play notes for a specific beat across all tracks
+   * With an arrangement, the beat is a song position and notes and automation come from its patterns
+   * Under a console profile, tracks play on their channel and tracks without one are silent
    */
   playBeat(
     tracks: Track[],
     instruments: Record<string, InstrumentConfig>,
+    drumKit: DrumKit,
     beat: number,
-    time: number
+    time: number,
+    arrangement?: SongArrangement,
+    automation?: AutomationLane[]
   ): void {
     if (!this.context) return
 
+    const position = Automation.locate(beat, automation, arrangement)
+
     // Check for solo tracks
     const hasSolo = tracks.some(t => t.solo)
 
@@ -184,35 +280,33 @@ export class AudioEngine {
       if (track.muted) continue
       if (hasSolo && !track.solo) continue
 
+      const hardware = ConsoleChip.getVoice(this.consoleProfile, track)
+      if (this.consoleProfile.channels.length > 0 && !hardware) continue
+
       // Get notes at this beat
-      const notesAtBeat = track.notes.filter(n => n.startBeat === beat)
+      const notesAtBeat = arrangement
+        ? Arrangement.getNotesAt(arrangement, track.id, beat)
+        : track.notes.filter(n => n.startBeat === beat)
 
-      for (const note of notesAtBeat) {
-        const config = instruments[track.id]
-        if (!config) continue
+      const instrument = instruments[track.id]
+      if (!instrument || notesAtBeat.length === 0) continue
+
+      // Automated values are sampled where each note starts
+      const { config, volume } = Automation.applyToTrack(track, instrument, position)
 
+      for (const note of notesAtBeat) {
         // Apply track volume
         const noteConfig: InstrumentConfig = {
           ...config,
-          gain: config.gain * track.volume * note.velocity,
+          gain: config.gain * volume * note.velocity,
         }
 
         if (track.type === 'drums') {
-          // Map pitch to drum sounds
-          const drumMap: Record<number, 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot'> = {
-            36: 'kick',     // C2
-            38: 'snare',    // D2
-            42: 'hihat',    // F#2 - Closed Hi-Hat
-            44: 'clap',     // G#2
-            45: 'tom',      // A2
-            46: 'openhat',  // A#2 - Open Hi-Hat
-            47: 'rimshot',  // B2
-            49: 'crash',    // C#3
-          }
-          const drumType = drumMap[note.pitch] || 'kick'
-          this.playDrum(drumType, time, noteConfig.gain)
+          const pad = getDrumPad(drumKit, note.pitch)
+          const delay = ChipEffects.noteDelay(note.effect, this._scheduler?.getTempo() ?? 120)
+          if (pad) this.playDrum(pad, time + delay, noteConfig.gain, hardware)
         } else {
-          this.playNote(note, time, noteConfig)
+          this.playNote(note, time, noteConfig, track.id, hardware)
         }
       }
     }
@@ -220,12 +314,30 @@ export class AudioEngine {
 
   /**
    * Preview a note immediately (for UI feedback)
+   * Held previews use the instrument's own envelope and sound until releasePreview
    */
-  previewNote(pitch: number, config: InstrumentConfig): void {
+  previewNote(pitch: number, config: InstrumentConfig, options: PreviewOptions = {}): void {
     if (!this.oscillator || !this.context) return
 
+    const { velocity = 1, hold = false, hardware } = options
+    const time = this.context.currentTime
+    const noteOptions = { tempo: this._scheduler?.getTempo(), hardware }
+
+    if (hold) {
+      // Striking a held key again restarts it rather than stacking voices
+      this.releasePreview(pitch)
+      this.heldPreviews.set(pitch, this.oscillator.holdNote(
+        pitch,
+        time,
+        { ...config, gain: config.gain * velocity },
+        noteOptions
+      ))
+      return
+    }
+
     const noteConfig: InstrumentConfig = {
       ...config,
+      gain: config.gain * velocity,
       adsr: {
         attack: 0.01,
         decay: 0.1,
@@ -234,15 +346,33 @@ export class AudioEngine {
       },
     }
 
-    this.oscillator.playNote(pitch, 0.2, this.context.currentTime, noteConfig)
+    this.oscillator.playNote(pitch, 0.2, time, noteConfig, noteOptions)
+  }
+
+  /**
+   * Release a held preview note
+   */
+  releasePreview(pitch: number): void {
+    const voice = this.heldPreviews.get(pitch)
+    if (!voice || !this.context) return
+
+    this.heldPreviews.delete(pitch)
+    voice.release(this.context.currentTime)
   }
 
   /**
    * Preview a drum hit immediately
    */
-  previewDrum(drumType: 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot'): void {
+  previewDrum(pad: DrumPad, velocity = 0.8, hardware?: HardwareVoice): void {
     if (!this.oscillator || !this.context) return
-    this.oscillator.playDrum(drumType, this.context.currentTime, 0.8)
+    this.oscillator.playDrum(pad, this.context.currentTime, velocity, hardware)
+  }
+
+  /**
+   * Clear per-track voice state such as glide sources
+   */
+  resetVoices(): void {
+    this.oscillator?.resetVoices()
   }
 
   /**
@@ -261,31 +391,53 @@ export class AudioEngine {
   }
 
   /**
-   * Render project to WAV file and download
+   * Render project to an audio file (WAV or Ogg Opus) and download
+   * With splitIntro, a project intro and its loop body download as two files
    */
-  async renderToWav(
-    tracks: Track[],
-    instruments: Record<string, InstrumentConfig>,
-    tempo: number,
-    loopStart: number,
-    loopEnd: number,
-    filename: string,
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    const options: RenderOptions = {
-      tracks,
-      instruments,
-      tempo,
-      loopStart,
-      loopEnd,
-      sampleRate: 44100,
-      onProgress,
+  async exportAudio(options: ExportAudioOptions): Promise<void> {
+    const { format, filename, bitrate = 128000, splitIntro = false, ...renderOptions } = options
+    const hasIntro = (renderOptions.introStart ?? renderOptions.loopStart) < renderOptions.loopStart
+
+    if (splitIntro && hasIntro) {
+      const { intro, loop } = await AudioRenderer.renderIntroAndLoop(renderOptions, format, bitrate)
+      this.downloadBlob(intro, `${filename}_intro.${format}`)
+      this.downloadBlob(loop, `${filename}_loop.${format}`)
+      return
     }
 
-    const wavBlob = await AudioRenderer.renderToWav(options)
+    const blob = await AudioRenderer.renderToFile(renderOptions, format, bitrate)
+    this.downloadBlob(blob, `${filename}.${format}`)
+  }
+
+  /**
+   * Render each track to its own WAV and download them together as a zip
+   * Files are named after the tracks; mute/solo are ignored
+   */
+  async exportStems(options: RenderOptions & { filename: string }): Promise<void> {
+    const { filename, ...renderOptions } = options
+    const stems = await AudioRenderer.renderStems(renderOptions, 'wav')
+
+    const usedNames = new Set<string>()
+    const entries: ZipEntry[] = []
+    for (const { track, blob } of stems) {
+      const baseName = track.name.trim().replace(/[^a-z0-9\s\-_]/gi, '_') || track.id
+      let stemName = baseName
+      for (let n = 2; usedNames.has(stemName.toLowerCase()); n++) {
+        stemName = `${baseName} ${n}`
+      }
+      usedNames.add(stemName.toLowerCase())
 
-    // Download the file
-    const url = URL.createObjectURL(wavBlob)
+      entries.push({ name: `${stemName}.wav`, data: new Uint8Array(await blob.arrayBuffer()) })
+    }
+
+    this.downloadBlob(ZipWriter.create(entries), `${filename}_stems.zip`)
+  }
+
+  /**
+   * Trigger a browser download for a blob
+   */
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
     a.download = filename
@@ -300,10 +452,12 @@ export class AudioEngine {
    */
   dispose(): void {
     this._scheduler?.stop()
+    this.heldPreviews.clear()
     this.context?.close()
     this.context = null
     this.masterGain = null
     this.compressor = null
+    this.metronomeGain = null
     this.oscillator = null
     this._scheduler = null
     this.isInitialized = false
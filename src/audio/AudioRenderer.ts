@@ -1,39 +1,249 @@
 import type { Track } from '@/types/project'
-import type { InstrumentConfig, ADSRParams } from '@/types/instrument'
+import type { InstrumentConfig } from '@/types/instrument'
+import { ChipEffects } from './ChipEffects'
+import { ChipSynth } from './ChipSynth'
+import { ChipMacros } from './ChipMacros'
+import { OggOpusEncoder, OPUS_SAMPLE_RATE } from './OggOpusEncoder'
+import { Arrangement, type SongArrangement } from './Arrangement'
+import { Automation } from './Automation'
+import type { AutomationLane } from '@/types/automation'
+import type { DrumKit } from '@/types/drumKit'
+import type { ConsoleProfileId } from '@/types/console'
+import { getDrumPad } from '@/data/drumKits'
+import { getConsoleProfile } from '@/data/consoleProfiles'
+import { ConsoleChip } from './ConsoleChip'
+
+export type AudioFormat = 'wav' | 'ogg'
 
 export interface RenderOptions {
   tracks: Track[]
   instruments: Record<string, InstrumentConfig>
+  drumKit: DrumKit
   tempo: number
+  introStart?: number      // Beat position of a play-once intro before loopStart (defaults to loopStart)
   loopStart: number
   loopEnd: number
+  arrangement?: SongArrangement  // Render the arranged song; beats are song positions
+  automation?: AutomationLane[]  // Edited pattern's lanes (song renders use each pattern's own)
+  consoleProfile?: ConsoleProfileId  // Render through a console's channels and limits
   sampleRate?: number
+  seamlessLoop?: boolean   // Game loop mode: fold release tails into the loop start, trim to the loop end
   onProgress?: (progress: number) => void
 }
 
 /**
- * Offline audio renderer for exporting to WAV
+ * Loop region of a rendered buffer in sample frames (end is exclusive)
+ */
+export interface LoopPoints {
+  start: number
+  end: number
+}
+
+/**
+ * Intro and loop body rendered as separate files that play back to back
+ */
+export interface IntroLoopFiles {
+  intro: Blob
+  loop: Blob
+}
+
+/**
+ * One rendered track from a stem export
+ */
+export interface StemFile {
+  track: Track
+  blob: Blob
+}
+
+/**
+ * Offline audio renderer for exporting to WAV / Ogg Opus
  */
 export class AudioRenderer {
   /**
-   * Render project to WAV blob
+   * Render project to a single WAV or Ogg Opus blob
+   * Game loops and songs with an intro carry loop points at the loop body boundaries
+   * (without game loop mode the release tail runs on past the loop end marker)
+   */
+  static async renderToFile(options: RenderOptions, format: AudioFormat, bitrate = 128000): Promise<Blob> {
+    const sampleRate = this.getSampleRate(options, format)
+    const renderedBuffer = await this.render({ ...options, sampleRate })
+
+    const { introStart = options.loopStart, loopStart, seamlessLoop } = options
+    const loop = seamlessLoop || introStart < loopStart
+      ? { start: this.getIntroFrames(options, sampleRate), end: this.getLoopEndFrames(options, sampleRate) }
+      : undefined
+
+    return this.encode(renderedBuffer, format, bitrate, loop, options.onProgress)
+  }
+
+  /**
+   * Render the intro and the loop body to separate files
+   * The intro file runs on through the first pass of the loop body, so intro notes still
+   * ringing at the loop start carry over; it ends at the loop end, where the seamless loop
+   * file (which opens with the loop's own wrapped tails) takes over
+   */
+  static async renderIntroAndLoop(
+    options: RenderOptions,
+    format: AudioFormat,
+    bitrate = 128000
+  ): Promise<IntroLoopFiles> {
+    const { onProgress } = options
+    const sampleRate = this.getSampleRate(options, format)
+
+    const introBuffer = await this.render({
+      ...options,
+      sampleRate,
+      seamlessLoop: false,
+      onProgress: (progress) => onProgress?.(progress * 0.4),
+    })
+    const intro = await this.encode(
+      this.trimBuffer(introBuffer, this.getLoopEndFrames(options, sampleRate)),
+      format,
+      bitrate,
+      undefined,
+      (progress) => onProgress?.(progress * 0.5)
+    )
+
+    const loopBuffer = await this.render({
+      ...options,
+      sampleRate,
+      introStart: options.loopStart,
+      seamlessLoop: true,
+      onProgress: (progress) => onProgress?.(0.5 + progress * 0.4),
+    })
+    const loop = await this.encode(
+      loopBuffer,
+      format,
+      bitrate,
+      { start: 0, end: loopBuffer.length },
+      (progress) => onProgress?.(0.5 + progress * 0.5)
+    )
+
+    return { intro, loop }
+  }
+
+  /**
+   * Render every track to its own file, ignoring mute/solo
+   * Stems share one length and start point so they line up sample for sample
+   */
+  static async renderStems(
+    options: RenderOptions,
+    format: AudioFormat = 'wav',
+    bitrate = 128000
+  ): Promise<StemFile[]> {
+    const { tracks, onProgress } = options
+    const stems: StemFile[] = []
+
+    for (let i = 0; i < tracks.length; i++) {
+      const track = tracks[i]
+      const blob = await this.renderToFile(
+        {
+          ...options,
+          tracks: [{ ...track, muted: false, solo: false }],
+          onProgress: (progress) => onProgress?.((i + progress) / tracks.length),
+        },
+        format,
+        bitrate
+      )
+      stems.push({ track, blob })
+    }
+
+    return stems
+  }
+
+  /**
+   * Encode a rendered buffer, reporting progress from 90% to 100%
+   * WAV loops go in a smpl chunk, Ogg loops in LOOPSTART/LOOPLENGTH tags (in samples)
+   */
+  private static async encode(
+    buffer: AudioBuffer,
+    format: AudioFormat,
+    bitrate: number,
+    loop?: LoopPoints,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    let blob: Blob
+
+    if (format === 'ogg') {
+      const tags: Record<string, string> = loop
+        ? { LOOPSTART: String(loop.start), LOOPLENGTH: String(loop.end - loop.start) }
+        : {}
+
+      blob = await OggOpusEncoder.encode(buffer, {
+        bitrate,
+        tags,
+        onProgress: (progress) => onProgress?.(0.9 + progress * 0.1),
+      })
+    } else {
+      blob = this.bufferToWav(buffer, loop)
+    }
+
+    onProgress?.(1.0) // 100% done
+    return blob
+  }
+
+  /**
+   * Ogg Opus renders at 48kHz, the native Opus rate
+   */
+  private static getSampleRate(options: RenderOptions, format: AudioFormat): number {
+    return format === 'ogg' ? OPUS_SAMPLE_RATE : options.sampleRate ?? 44100
+  }
+
+  /**
+   * Length of the intro in sample frames
+   */
+  private static getIntroFrames(options: RenderOptions, sampleRate: number): number {
+    const timeAt = this.getTimeline(options)
+    return Math.round(timeAt(options.loopStart) * sampleRate)
+  }
+
+  /**
+   * Frames from the render start to the loop end
    */
-  static async renderToWav(options: RenderOptions): Promise<Blob> {
+  private static getLoopEndFrames(options: RenderOptions, sampleRate: number): number {
+    const timeAt = this.getTimeline(options)
+    return Math.round(timeAt(options.loopEnd) * sampleRate)
+  }
+
+  /**
+   * Seconds from the render start to each beat, following tempo automation
+   */
+  private static getTimeline(options: RenderOptions): (beat: number) => number {
+    const { tempo, loopStart, loopEnd, introStart = loopStart, automation, arrangement } = options
+    return Automation.timeline(
+      introStart,
+      loopEnd,
+      beat => Automation.tempoAt(beat, automation, arrangement) ?? tempo
+    )
+  }
+
+  /**
+   * Render project to an AudioBuffer
+   */
+  static async render(options: RenderOptions): Promise<AudioBuffer> {
     const {
-      tracks,
       instruments,
+      drumKit,
       tempo,
       loopStart,
       loopEnd,
+      introStart = loopStart,
+      arrangement,
+      automation,
+      consoleProfile = 'free',
       sampleRate = 44100,
+      seamlessLoop = false,
       onProgress,
     } = options
+    const profile = getConsoleProfile(consoleProfile)
+    const isHardware = profile.channels.length > 0
+
+    // Patterns are laid out on the song timeline first
+    const tracks = arrangement ? Arrangement.arrangeTracks(options.tracks, arrangement) : options.tracks
 
-    // Calculate duration
-    const totalBeats = loopEnd - loopStart
-    const secondsPerBeat = 60.0 / tempo
-    const secondsPer16th = secondsPerBeat / 4
-    const duration = totalBeats * secondsPer16th + 1 // Add 1 second for release tails
+    // Calculate duration (intro plays once, then the loop body)
+    const timeAt = this.getTimeline(options)
+    const duration = timeAt(loopEnd) + this.getTailSeconds(instruments, drumKit)
 
     // Create offline context
     const offlineContext = new OfflineAudioContext(2, sampleRate * duration, sampleRate)
@@ -46,14 +256,23 @@ export class AudioRenderer {
     compressor.attack.value = 0.005
     compressor.release.value = 0.1
 
+    // Console mixers have no compressor
+    if (isHardware) {
+      compressor.threshold.value = 0
+      compressor.ratio.value = 1
+    }
+
     const masterGain = offlineContext.createGain()
     masterGain.gain.value = 0.8
 
     compressor.connect(masterGain)
     masterGain.connect(offlineContext.destination)
 
-    // Pre-generate pulse waves
-    const pulseWaves = this.createPulseWaves(offlineContext)
+    // Register effect worklets (bitcrush is bypassed if this fails)
+    await ChipEffects.loadWorklets(offlineContext)
+
+    // Same synthesis core as live playback
+    const synth = new ChipSynth(offlineContext, compressor)
 
     // Check for solo tracks
     const hasSolo = tracks.some(t => t.solo)
@@ -70,34 +289,44 @@ export class AudioRenderer {
       const config = instruments[track.id]
       if (!config) continue
 
-      for (const note of track.notes) {
-        // Only render notes within loop region
-        if (note.startBeat < loopStart || note.startBeat >= loopEnd) continue
+      // Under a console profile a track without a channel is silent
+      const hardware = isHardware ? ConsoleChip.getVoice(profile, track) : undefined
+      if (isHardware && !hardware) continue
 
-        const time = (note.startBeat - loopStart) * secondsPer16th
-        const noteDuration = note.duration * secondsPer16th
+      // Notes in playback order so glide follows the same sequence as live playback
+      const orderedNotes = [...track.notes].sort((a, b) => a.startBeat - b.startBeat)
+
+      for (const note of orderedNotes) {
+        // Only render notes within the intro and loop region
+        if (note.startBeat < introStart || note.startBeat >= loopEnd) continue
+
+        const time = timeAt(note.startBeat)
+        const noteDuration = timeAt(note.startBeat + note.duration) - time
+        const noteTempo = Automation.tempoAt(note.startBeat, automation, arrangement) ?? tempo
+
+        // Automated values are sampled where each note starts, as in live playback
+        const automated = Automation.applyToTrack(
+          track,
+          config,
+          Automation.locate(note.startBeat, automation, arrangement)
+        )
 
         // Apply track volume
         const noteConfig: InstrumentConfig = {
-          ...config,
-          gain: config.gain * track.volume * note.velocity,
+          ...automated.config,
+          gain: config.gain * automated.volume * note.velocity,
         }
 
         if (track.type === 'drums') {
-          const drumMap: Record<number, 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot'> = {
-            36: 'kick',
-            38: 'snare',
-            42: 'hihat',
-            44: 'clap',
-            45: 'tom',
-            46: 'openhat',
-            47: 'rimshot',
-            49: 'crash',
-          }
-          const drumType = drumMap[note.pitch] || 'kick'
-          this.scheduleDrum(offlineContext, compressor, drumType, time, noteConfig.gain)
+          const pad = getDrumPad(drumKit, note.pitch)
+          if (pad) synth.playDrum(pad, time + ChipEffects.noteDelay(note.effect, noteTempo), noteConfig.gain, hardware)
         } else {
-          this.scheduleNote(offlineContext, compressor, pulseWaves, note.pitch, noteDuration, time, noteConfig)
+          synth.playNote(note.pitch, noteDuration, time, noteConfig, {
+            channel: track.id,
+            tempo: noteTempo,
+            effect: note.effect,
+            hardware,
+          })
         }
 
         scheduledNotes++
@@ -109,483 +338,75 @@ export class AudioRenderer {
     const renderedBuffer = await offlineContext.startRendering()
     onProgress?.(0.9) // 90% for rendering
 
-    // Convert to WAV
-    const wavBlob = this.bufferToWav(renderedBuffer)
-    onProgress?.(1.0) // 100% done
-
-    return wavBlob
-  }
-
-  /**
-   * Create pulse waves for offline context
-   */
-  private static createPulseWaves(context: OfflineAudioContext): Map<number, PeriodicWave> {
-    const waves = new Map<number, PeriodicWave>()
-    const dutyCycles = [0.125, 0.25, 0.5, 0.75]
-
-    for (const duty of dutyCycles) {
-      const harmonics = 64
-      const real = new Float32Array(harmonics)
-      const imag = new Float32Array(harmonics)
-
-      for (let n = 1; n < harmonics; n++) {
-        const coefficient = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * duty)
-        imag[n] = coefficient
-        real[n] = 0
-      }
-
-      waves.set(duty, context.createPeriodicWave(real, imag, { disableNormalization: false }))
+    if (seamlessLoop) {
+      return this.foldLoopTail(
+        renderedBuffer,
+        Math.round(timeAt(loopStart) * sampleRate),
+        Math.round(timeAt(loopEnd) * sampleRate)
+      )
     }
 
-    return waves
+    return renderedBuffer
   }
 
   /**
-   * Get closest pulse wave
+   * Seconds to render past the last beat so release tails are not cut off
+   * Covers the longest instrument release (or volume macro tail) and the 1 second crash cymbal
    */
-  private static getPulseWave(waves: Map<number, PeriodicWave>, dutyCycle: number): PeriodicWave {
-    const duties = [0.125, 0.25, 0.5, 0.75]
-    let closest = 0.5
-    let minDiff = Math.abs(dutyCycle - closest)
-
-    for (const d of duties) {
-      const diff = Math.abs(dutyCycle - d)
-      if (diff < minDiff) {
-        minDiff = diff
-        closest = d
-      }
-    }
-
-    return waves.get(closest)!
+  private static getTailSeconds(instruments: Record<string, InstrumentConfig>, drumKit: DrumKit): number {
+    const maxRelease = Math.max(
+      0,
+      ...Object.values(instruments).map(i => ChipMacros.releaseTime(i)),
+      ...drumKit.pads.flatMap(p => p.layers.map(l => l.delay + l.decay))
+    )
+    return Math.max(1, maxRelease + 0.1)
   }
 
   /**
-   * Schedule a note for offline rendering
+   * Wrap everything past loopEnd back onto the loop start and trim to loopEnd
+   * so the loop point has no click when the body repeats
    */
-  private static scheduleNote(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    pulseWaves: Map<number, PeriodicWave>,
-    pitch: number,
-    duration: number,
-    startTime: number,
-    config: InstrumentConfig
-  ): void {
-    const { waveform, adsr, pulseWidth, detune, gain } = config
-    const frequency = 440 * Math.pow(2, (pitch - 69) / 12)
-
-    if (waveform === 'noise') {
-      this.scheduleNoise(context, destination, duration, startTime, adsr, gain)
-      return
-    }
-
-    const osc = context.createOscillator()
-    const gainNode = context.createGain()
-
-    if (waveform === 'pulse') {
-      osc.setPeriodicWave(this.getPulseWave(pulseWaves, pulseWidth))
-    } else {
-      osc.type = waveform as OscillatorType
-    }
-
-    osc.frequency.setValueAtTime(frequency, startTime)
-    osc.detune.setValueAtTime(detune, startTime)
-
-    this.applyADSR(gainNode, startTime, duration, adsr, gain)
-
-    osc.connect(gainNode)
-    gainNode.connect(destination)
-
-    osc.start(startTime)
-    osc.stop(startTime + duration + adsr.release + 0.05)
-  }
-
-  /**
-   * Schedule noise for offline rendering
-   */
-  private static scheduleNoise(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    duration: number,
-    startTime: number,
-    adsr: ADSRParams,
-    gain: number
-  ): void {
-    const bufferSize = context.sampleRate * (duration + adsr.release + 0.1)
-    const buffer = context.createBuffer(1, bufferSize, context.sampleRate)
-    const data = buffer.getChannelData(0)
-
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1
+  private static foldLoopTail(buffer: AudioBuffer, loopStart: number, loopEnd: number): AudioBuffer {
+    const folded = new AudioBuffer({
+      length: loopEnd,
+      numberOfChannels: buffer.numberOfChannels,
+      sampleRate: buffer.sampleRate,
+    })
+    const loopLength = loopEnd - loopStart
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const source = buffer.getChannelData(channel)
+      const target = folded.getChannelData(channel)
+
+      for (let i = 0; i < source.length; i++) {
+        target[i < loopEnd ? i : loopStart + ((i - loopEnd) % loopLength)] += source[i]
+      }
     }
 
-    const source = context.createBufferSource()
-    source.buffer = buffer
-
-    const gainNode = context.createGain()
-    this.applyADSR(gainNode, startTime, duration, adsr, gain)
-
-    source.connect(gainNode)
-    gainNode.connect(destination)
-
-    source.start(startTime)
-    source.stop(startTime + duration + adsr.release + 0.05)
+    return folded
   }
 
   /**
-   * Apply ADSR envelope
+   * Copy the first length frames of a buffer
    */
-  private static applyADSR(
-    gainNode: GainNode,
-    startTime: number,
-    duration: number,
-    adsr: ADSRParams,
-    maxGain: number
-  ): void {
-    const { attack, decay, sustain, release } = adsr
-    const peakGain = maxGain
-    const sustainGain = maxGain * sustain
-
-    const attackEnd = startTime + attack
-    const decayEnd = attackEnd + decay
-    const releaseStart = startTime + Math.max(duration - release, attack + decay)
-    const releaseEnd = releaseStart + release
-
-    gainNode.gain.setValueAtTime(0, startTime)
-    gainNode.gain.linearRampToValueAtTime(peakGain, attackEnd)
-    gainNode.gain.linearRampToValueAtTime(sustainGain, decayEnd)
-    gainNode.gain.setValueAtTime(sustainGain, releaseStart)
-    gainNode.gain.linearRampToValueAtTime(0, releaseEnd)
-  }
-
-  /**
-   * Schedule a drum sound for offline rendering
-   */
-  private static scheduleDrum(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    drumType: 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot',
-    startTime: number,
-    gain: number
-  ): void {
-    switch (drumType) {
-      case 'kick':
-        this.scheduleKick(context, destination, startTime, gain)
-        break
-      case 'snare':
-        this.scheduleSnare(context, destination, startTime, gain)
-        break
-      case 'hihat':
-        this.scheduleHihat(context, destination, startTime, gain)
-        break
-      case 'tom':
-        this.scheduleTom(context, destination, startTime, gain)
-        break
-      case 'clap':
-        this.scheduleClap(context, destination, startTime, gain)
-        break
-      case 'openhat':
-        this.scheduleOpenHat(context, destination, startTime, gain)
-        break
-      case 'crash':
-        this.scheduleCrash(context, destination, startTime, gain)
-        break
-      case 'rimshot':
-        this.scheduleRimshot(context, destination, startTime, gain)
-        break
+  private static trimBuffer(buffer: AudioBuffer, length: number): AudioBuffer {
+    const trimmed = new AudioBuffer({
+      length: Math.max(1, Math.min(length, buffer.length)),
+      numberOfChannels: buffer.numberOfChannels,
+      sampleRate: buffer.sampleRate,
+    })
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      trimmed.copyToChannel(buffer.getChannelData(channel).subarray(0, trimmed.length), channel)
     }
-  }
 
-  private static scheduleKick(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const osc = context.createOscillator()
-    const gainNode = context.createGain()
-
-    osc.type = 'sine'
-    osc.frequency.setValueAtTime(150, startTime)
-    osc.frequency.exponentialRampToValueAtTime(40, startTime + 0.1)
-
-    gainNode.gain.setValueAtTime(gain, startTime)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.3)
-
-    osc.connect(gainNode)
-    gainNode.connect(destination)
-
-    osc.start(startTime)
-    osc.stop(startTime + 0.3)
-  }
-
-  private static scheduleSnare(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    // Noise component
-    const noiseLength = 0.2
-    const noiseBuffer = context.createBuffer(1, context.sampleRate * noiseLength, context.sampleRate)
-    const noiseData = noiseBuffer.getChannelData(0)
-    for (let i = 0; i < noiseBuffer.length; i++) {
-      noiseData[i] = Math.random() * 2 - 1
-    }
-
-    const noiseSource = context.createBufferSource()
-    noiseSource.buffer = noiseBuffer
-
-    const noiseGain = context.createGain()
-    noiseGain.gain.setValueAtTime(gain * 0.7, startTime)
-    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.2)
-
-    // Tone component
-    const osc = context.createOscillator()
-    osc.type = 'triangle'
-    osc.frequency.setValueAtTime(180, startTime)
-    osc.frequency.exponentialRampToValueAtTime(100, startTime + 0.05)
-
-    const oscGain = context.createGain()
-    oscGain.gain.setValueAtTime(gain * 0.3, startTime)
-    oscGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.1)
-
-    noiseSource.connect(noiseGain)
-    noiseGain.connect(destination)
-    osc.connect(oscGain)
-    oscGain.connect(destination)
-
-    noiseSource.start(startTime)
-    noiseSource.stop(startTime + 0.2)
-    osc.start(startTime)
-    osc.stop(startTime + 0.1)
-  }
-
-  private static scheduleHihat(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const length = 0.05
-    const buffer = context.createBuffer(1, context.sampleRate * length, context.sampleRate)
-    const data = buffer.getChannelData(0)
-
-    for (let i = 0; i < buffer.length; i++) {
-      data[i] = Math.random() * 2 - 1
-    }
-
-    const source = context.createBufferSource()
-    source.buffer = buffer
-
-    const filter = context.createBiquadFilter()
-    filter.type = 'highpass'
-    filter.frequency.setValueAtTime(7000, startTime)
-
-    const gainNode = context.createGain()
-    gainNode.gain.setValueAtTime(gain * 0.5, startTime)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.05)
-
-    source.connect(filter)
-    filter.connect(gainNode)
-    gainNode.connect(destination)
-
-    source.start(startTime)
-    source.stop(startTime + 0.05)
-  }
-
-  private static scheduleTom(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const osc = context.createOscillator()
-    const gainNode = context.createGain()
-
-    osc.type = 'sine'
-    osc.frequency.setValueAtTime(200, startTime)
-    osc.frequency.exponentialRampToValueAtTime(80, startTime + 0.15)
-
-    gainNode.gain.setValueAtTime(gain, startTime)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.25)
-
-    osc.connect(gainNode)
-    gainNode.connect(destination)
-
-    osc.start(startTime)
-    osc.stop(startTime + 0.25)
-  }
-
-  private static scheduleClap(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const layers = 3
-    for (let i = 0; i < layers; i++) {
-      const delay = i * 0.01
-
-      const noiseLength = 0.08
-      const noiseBuffer = context.createBuffer(1, context.sampleRate * noiseLength, context.sampleRate)
-      const noiseData = noiseBuffer.getChannelData(0)
-      for (let j = 0; j < noiseBuffer.length; j++) {
-        noiseData[j] = Math.random() * 2 - 1
-      }
-
-      const noiseSource = context.createBufferSource()
-      noiseSource.buffer = noiseBuffer
-
-      const filter = context.createBiquadFilter()
-      filter.type = 'bandpass'
-      filter.frequency.setValueAtTime(1500, startTime + delay)
-      filter.Q.setValueAtTime(1.5, startTime + delay)
-
-      const noiseGain = context.createGain()
-      noiseGain.gain.setValueAtTime(gain * 0.6, startTime + delay)
-      noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + delay + 0.1)
-
-      noiseSource.connect(filter)
-      filter.connect(noiseGain)
-      noiseGain.connect(destination)
-
-      noiseSource.start(startTime + delay)
-      noiseSource.stop(startTime + delay + 0.15)
-    }
-  }
-
-  private static scheduleOpenHat(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const length = 0.2
-    const buffer = context.createBuffer(1, context.sampleRate * length, context.sampleRate)
-    const data = buffer.getChannelData(0)
-
-    for (let i = 0; i < buffer.length; i++) {
-      data[i] = Math.random() * 2 - 1
-    }
-
-    const source = context.createBufferSource()
-    source.buffer = buffer
-
-    const filter = context.createBiquadFilter()
-    filter.type = 'highpass'
-    filter.frequency.setValueAtTime(6000, startTime)
-
-    const bandpass = context.createBiquadFilter()
-    bandpass.type = 'bandpass'
-    bandpass.frequency.setValueAtTime(10000, startTime)
-    bandpass.Q.setValueAtTime(0.5, startTime)
-
-    const gainNode = context.createGain()
-    gainNode.gain.setValueAtTime(gain * 0.4, startTime)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.2)
-
-    source.connect(filter)
-    filter.connect(bandpass)
-    bandpass.connect(gainNode)
-    gainNode.connect(destination)
-
-    source.start(startTime)
-    source.stop(startTime + 0.25)
-  }
-
-  private static scheduleCrash(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const length = 0.8
-    const buffer = context.createBuffer(1, context.sampleRate * length, context.sampleRate)
-    const data = buffer.getChannelData(0)
-
-    for (let i = 0; i < buffer.length; i++) {
-      data[i] = Math.random() * 2 - 1
-    }
-
-    const source = context.createBufferSource()
-    source.buffer = buffer
-
-    const highpass = context.createBiquadFilter()
-    highpass.type = 'highpass'
-    highpass.frequency.setValueAtTime(4000, startTime)
-
-    const peak = context.createBiquadFilter()
-    peak.type = 'peaking'
-    peak.frequency.setValueAtTime(8000, startTime)
-    peak.Q.setValueAtTime(2, startTime)
-    peak.gain.setValueAtTime(6, startTime)
-
-    const gainNode = context.createGain()
-    gainNode.gain.setValueAtTime(gain * 0.5, startTime)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.8)
-
-    source.connect(highpass)
-    highpass.connect(peak)
-    peak.connect(gainNode)
-    gainNode.connect(destination)
-
-    source.start(startTime)
-    source.stop(startTime + 1)
-  }
-
-  private static scheduleRimshot(
-    context: OfflineAudioContext,
-    destination: AudioNode,
-    startTime: number,
-    gain: number
-  ): void {
-    const osc = context.createOscillator()
-    const oscGain = context.createGain()
-
-    osc.type = 'triangle'
-    osc.frequency.setValueAtTime(400, startTime)
-    osc.frequency.exponentialRampToValueAtTime(200, startTime + 0.02)
-
-    oscGain.gain.setValueAtTime(gain * 0.8, startTime)
-    oscGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.08)
-
-    osc.connect(oscGain)
-    oscGain.connect(destination)
-
-    osc.start(startTime)
-    osc.stop(startTime + 0.1)
-
-    const noiseLength = 0.03
-    const noiseBuffer = context.createBuffer(1, context.sampleRate * noiseLength, context.sampleRate)
-    const noiseData = noiseBuffer.getChannelData(0)
-    for (let i = 0; i < noiseBuffer.length; i++) {
-      noiseData[i] = Math.random() * 2 - 1
-    }
-
-    const noiseSource = context.createBufferSource()
-    noiseSource.buffer = noiseBuffer
-
-    const filter = context.createBiquadFilter()
-    filter.type = 'highpass'
-    filter.frequency.setValueAtTime(3000, startTime)
-
-    const noiseGain = context.createGain()
-    noiseGain.gain.setValueAtTime(gain * 0.4, startTime)
-    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.05)
-
-    noiseSource.connect(filter)
-    filter.connect(noiseGain)
-    noiseGain.connect(destination)
-
-    noiseSource.start(startTime)
-    noiseSource.stop(startTime + 0.05)
+    return trimmed
   }
 
   /**
    * Convert AudioBuffer to WAV blob
    */
-  private static bufferToWav(buffer: AudioBuffer): Blob {
+  private static bufferToWav(buffer: AudioBuffer, loop?: LoopPoints): Blob {
     const numChannels = buffer.numberOfChannels
     const sampleRate = buffer.sampleRate
     const format = 1 // PCM
@@ -595,7 +416,8 @@ export class AudioRenderer {
     const blockAlign = numChannels * bytesPerSample
 
     const dataLength = buffer.length * blockAlign
-    const bufferLength = 44 + dataLength
+    const smplLength = loop ? 68 : 0
+    const bufferLength = 44 + dataLength + smplLength
 
     const arrayBuffer = new ArrayBuffer(bufferLength)
     const view = new DataView(arrayBuffer)
@@ -635,6 +457,27 @@ export class AudioRenderer {
       }
     }
 
+    // Write smpl chunk with a single forward loop
+    if (loop) {
+      this.writeString(view, offset, 'smpl')
+      view.setUint32(offset + 4, 60, true)                      // Chunk size
+      view.setUint32(offset + 8, 0, true)                       // Manufacturer
+      view.setUint32(offset + 12, 0, true)                      // Product
+      view.setUint32(offset + 16, Math.round(1e9 / sampleRate), true) // Sample period (ns)
+      view.setUint32(offset + 20, 60, true)                     // MIDI unity note
+      view.setUint32(offset + 24, 0, true)                      // Pitch fraction
+      view.setUint32(offset + 28, 0, true)                      // SMPTE format
+      view.setUint32(offset + 32, 0, true)                      // SMPTE offset
+      view.setUint32(offset + 36, 1, true)                      // Number of loops
+      view.setUint32(offset + 40, 0, true)                      // Sampler data
+      view.setUint32(offset + 44, 0, true)                      // Cue point ID
+      view.setUint32(offset + 48, 0, true)                      // Loop type (forward)
+      view.setUint32(offset + 52, loop.start, true)
+      view.setUint32(offset + 56, loop.end - 1, true)           // Last sample of the loop (inclusive)
+      view.setUint32(offset + 60, 0, true)                      // Fraction
+      view.setUint32(offset + 64, 0, true)                      // Play count (infinite)
+    }
+
     return new Blob([arrayBuffer], { type: 'audio/wav' })
   }
 
@@ -0,0 +1,129 @@
+import type { AutomationLane, AutomationTarget } from '@/types/automation'
+import type { InstrumentConfig } from '@/types/instrument'
+import type { Track } from '@/types/project'
+import { Arrangement, type SongArrangement } from './Arrangement'
+import { clampAutomationValue } from '@/data/automationTargets'
+
+/**
+ * Lanes in effect at a playback position, with the position inside their pattern
+ */
+export interface AutomationPosition {
+  lanes: AutomationLane[]
+  beat: number
+}
+
+/**
+ * Evaluates automation lanes at playback positions
+ * Shared by live playback and offline rendering so both follow the same curves
+ */
+export class Automation {
+  /**
+   * Find the lanes for a beat: the edited pattern's lanes, or in song mode
+   * the lanes of whichever pattern plays at that song beat
+   */
+  static locate(beat: number, lanes: AutomationLane[] = [], arrangement?: SongArrangement): AutomationPosition {
+    if (!arrangement) return { lanes, beat }
+
+    const slot = Arrangement.getSlotAt(arrangement, beat)
+    return slot
+      ? { lanes: slot.pattern.automation ?? [], beat: beat - slot.start }
+      : { lanes: [], beat }
+  }
+
+  /**
+   * Lane value at a beat, interpolating linearly between breakpoints
+   */
+  static valueAt(lane: AutomationLane, beat: number): number | undefined {
+    const { points } = lane
+    if (points.length === 0) return undefined
+
+    if (beat <= points[0].beat) return points[0].value
+
+    for (let i = 1; i < points.length; i++) {
+      const next = points[i]
+      if (beat <= next.beat) {
+        const prev = points[i - 1]
+        const t = (beat - prev.beat) / Math.max(1, next.beat - prev.beat)
+        return prev.value + (next.value - prev.value) * t
+      }
+    }
+
+    return points[points.length - 1].value
+  }
+
+  /**
+   * Value of a target at a beat, or undefined when nothing automates it
+   */
+  static getValue(
+    lanes: AutomationLane[],
+    target: AutomationTarget,
+    beat: number,
+    trackId?: string
+  ): number | undefined {
+    const lane = lanes.find(l => l.target === target && l.trackId === trackId)
+    const value = lane ? this.valueAt(lane, beat) : undefined
+    return value === undefined ? undefined : clampAutomationValue(target, value)
+  }
+
+  /**
+   * Automated tempo at a playback position, or undefined to keep the project tempo
+   */
+  static tempoAt(beat: number, lanes?: AutomationLane[], arrangement?: SongArrangement): number | undefined {
+    const position = this.locate(beat, lanes, arrangement)
+    return this.getValue(position.lanes, 'tempo', position.beat)
+  }
+
+  /**
+   * A track's volume and instrument with its automated values at a beat
+   * Automating the bitcrush turns it on for that track
+   */
+  static applyToTrack(
+    track: Track,
+    config: InstrumentConfig,
+    position: AutomationPosition
+  ): { config: InstrumentConfig; volume: number } {
+    const { lanes, beat } = position
+    const value = (target: AutomationTarget) => this.getValue(lanes, target, beat, track.id)
+
+    const bits = value('bitcrushBits')
+    const rate = value('bitcrushFreq')
+
+    return {
+      volume: value('volume') ?? track.volume,
+      config: {
+        ...config,
+        pulseWidth: value('pulseWidth') ?? config.pulseWidth,
+        detune: value('detune') ?? config.detune,
+        effects: {
+          ...config.effects,
+          bitcrush: config.effects.bitcrush || bits !== undefined || rate !== undefined,
+          bitcrushBits: bits ?? config.effects.bitcrushBits,
+          bitcrushFreq: rate ?? config.effects.bitcrushFreq,
+        },
+      },
+    }
+  }
+
+  /**
+   * Seconds from fromBeat to any later beat, following the tempo at every step
+   * Beats past toBeat continue at the last tempo
+   */
+  static timeline(
+    fromBeat: number,
+    toBeat: number,
+    tempoAt: (beat: number) => number
+  ): (beat: number) => number {
+    const times = [0]
+    for (let beat = fromBeat; beat < toBeat; beat++) {
+      times.push(times[times.length - 1] + 60.0 / tempoAt(beat) / 4)
+    }
+
+    const lastStep = 60.0 / tempoAt(Math.max(fromBeat, toBeat - 1)) / 4
+    return (beat: number) => {
+      const index = beat - fromBeat
+      if (index <= 0) return 0
+      if (index < times.length) return times[index]
+      return times[times.length - 1] + (index - (times.length - 1)) * lastStep
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import type { EffectParams } from '@/types/instrument'
+import type { NoteEffect } from '@/types/note'
+import { TICKS_PER_STEP } from '@/data/noteEffects'
+
+/**
+ * Bitcrusher processor source, loaded into the AudioWorklet from a Blob URL
+ * Reduces bit depth (bits) and holds samples to reduce the sample rate (normfreq)
+ */
+const BITCRUSHER_PROCESSOR = `
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 8, minValue: 1, maxValue: 16 },
+      { name: 'normfreq', defaultValue: 0.5, minValue: 0, maxValue: 1 },
+    ]
+  }
+
+  constructor(options) {
+    super()
+    this.phaser = 0
+    this.held = []
+    this.stopTime = (options.processorOptions && options.processorOptions.stopTime) || Infinity
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const bits = parameters.bits
+    const normfreq = parameters.normfreq
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inData = input[channel]
+      const outData = output[channel]
+      if (!inData) {
+        outData.fill(0)
+        continue
+      }
+      if (this.held[channel] === undefined) this.held[channel] = 0
+      let phaser = this.phaser
+      for (let i = 0; i < outData.length; i++) {
+        const step = Math.pow(0.5, (bits.length > 1 ? bits[i] : bits[0]) - 1)
+        phaser += normfreq.length > 1 ? normfreq[i] : normfreq[0]
+        if (phaser >= 1) {
+          phaser -= 1
+          this.held[channel] = step * Math.floor(inData[i] / step + 0.5)
+        }
+        outData[i] = this.held[channel]
+      }
+      if (channel === output.length - 1) this.phaser = phaser
+    }
+
+    return currentTime < this.stopTime
+  }
+}
+
+registerProcessor('bitcrusher', BitcrusherProcessor)
+`
+
+/**
+ * Effect scheduling shared by instrument voices
+ * Pitch effects work on separate AudioParams so they stack cleanly:
+ * glide on frequency, arpeggio on detune, vibrato as an LFO summed into detune
+ */
+export class ChipEffects {
+  private static loadedContexts = new WeakSet<BaseAudioContext>()
+  private static pendingLoads = new WeakMap<BaseAudioContext, Promise<boolean>>()
+
+  /**
+   * Register the effect worklets on a context
+   * Resolves false if AudioWorklet is unavailable; bitcrush is then bypassed
+   */
+  static loadWorklets(context: BaseAudioContext): Promise<boolean> {
+    const pending = this.pendingLoads.get(context)
+    if (pending) return pending
+
+    const load = (async () => {
+      if (!context.audioWorklet) return false
+
+      const url = URL.createObjectURL(new Blob([BITCRUSHER_PROCESSOR], { type: 'application/javascript' }))
+      try {
+        await context.audioWorklet.addModule(url)
+        this.loadedContexts.add(context)
+        return true
+      } catch (e) {
+        console.warn('Bitcrusher worklet unavailable:', e)
+        return false
+      } finally {
+        URL.revokeObjectURL(url)
+      }
+    })()
+
+    this.pendingLoads.set(context, load)
+    return load
+  }
+
+  /**
+   * Seconds per arpeggio step for a tempo (arpeggioSpeed is notes per beat)
+   */
+  static arpeggioStepTime(effects: EffectParams, tempo: number): number {
+    return 60.0 / tempo / Math.max(1, effects.arpeggioSpeed)
+  }
+
+  /**
+   * Step the detune param through the arpeggio pattern until endTime
+   */
+  static scheduleArpeggio(
+    detune: AudioParam,
+    baseDetune: number,
+    effects: EffectParams,
+    tempo: number,
+    startTime: number,
+    endTime: number
+  ): void {
+    const pattern = effects.arpeggioPattern.length > 0 ? effects.arpeggioPattern : [0]
+    const stepTime = this.arpeggioStepTime(effects, tempo)
+
+    let step = 0
+    for (let time = startTime; time < endTime; time += stepTime) {
+      detune.setValueAtTime(baseDetune + pattern[step % pattern.length] * 100, time)
+      step++
+    }
+  }
+
+  /**
+   * Slide frequency from the previous note's pitch into the new one
+   */
+  static scheduleGlide(
+    frequency: AudioParam,
+    fromFrequency: number,
+    toFrequency: number,
+    startTime: number,
+    glideTime: number
+  ): void {
+    frequency.setValueAtTime(fromFrequency, startTime)
+    frequency.exponentialRampToValueAtTime(toFrequency, startTime + Math.max(0.001, glideTime))
+  }
+
+  /**
+   * Create a sine LFO that wobbles the detune param by vibratoDepth semitones
+   */
+  static createVibrato(
+    context: BaseAudioContext,
+    detune: AudioParam,
+    effects: EffectParams,
+    startTime: number,
+    stopTime: number
+  ): void {
+    const lfo = context.createOscillator()
+    const depth = context.createGain()
+
+    lfo.type = 'sine'
+    lfo.frequency.setValueAtTime(effects.vibratoSpeed, startTime)
+    depth.gain.setValueAtTime(effects.vibratoDepth * 100, startTime)
+
+    lfo.connect(depth)
+    depth.connect(detune)
+
+    lfo.start(startTime)
+    lfo.stop(stopTime)
+  }
+
+  /**
+   * How far PWM swings the pulse width either side, kept within 2-98% so the wave never vanishes
+   */
+  static pwmSwing(pulseWidth: number, effects: EffectParams): number {
+    return Math.max(0, Math.min(effects.pwmDepth, pulseWidth - 0.02, 0.98 - pulseWidth))
+  }
+
+  /**
+   * Pulse width `elapsed` seconds into a note, swept by a sine PWM LFO
+   */
+  static pwmWidth(pulseWidth: number, effects: EffectParams, elapsed: number): number {
+    return pulseWidth + this.pwmSwing(pulseWidth, effects) * Math.sin(2 * Math.PI * effects.pwmSpeed * elapsed)
+  }
+
+  /**
+   * Seconds per tracker tick at a tempo
+   */
+  static tickTime(tempo: number): number {
+    return 60.0 / tempo / 4 / TICKS_PER_STEP
+  }
+
+  /**
+   * How late a note delay command starts the note
+   */
+  static noteDelay(effect: NoteEffect | undefined, tempo: number): number {
+    return effect?.type === 'delay' ? effect.param * this.tickTime(tempo) : 0
+  }
+
+  /**
+   * Bend frequency up or down at a steady speed for the length of the note
+   */
+  static scheduleSlide(
+    frequency: AudioParam,
+    baseFrequency: number,
+    effect: NoteEffect,
+    tempo: number,
+    startTime: number,
+    endTime: number
+  ): void {
+    const direction = effect.type === 'slideDown' ? -1 : 1
+    const semitones = direction * (effect.param / 16) * ((endTime - startTime) / this.tickTime(tempo))
+    const target = Math.max(20, Math.min(20000, baseFrequency * Math.pow(2, semitones / 12)))
+
+    frequency.setValueAtTime(baseFrequency, startTime)
+    frequency.exponentialRampToValueAtTime(target, Math.max(startTime + 0.001, endTime))
+  }
+
+  /**
+   * Glide from the previous note at a set speed rather than in a set time
+   */
+  static schedulePortamento(
+    frequency: AudioParam,
+    fromFrequency: number,
+    toFrequency: number,
+    effect: NoteEffect,
+    tempo: number,
+    startTime: number
+  ): void {
+    if (effect.param === 0) {
+      frequency.setValueAtTime(toFrequency, startTime)
+      return
+    }
+
+    const semitones = Math.abs(12 * Math.log2(toFrequency / fromFrequency))
+    const glideTime = (semitones / (effect.param / 16)) * this.tickTime(tempo)
+    this.scheduleGlide(frequency, fromFrequency, toFrequency, startTime, glideTime)
+  }
+
+  /**
+   * Per-note volume stage for volume slide and note cut commands
+   * Returns null for other commands, which leave the volume alone
+   */
+  static createNoteVolume(
+    context: BaseAudioContext,
+    effect: NoteEffect | undefined,
+    tempo: number,
+    startTime: number,
+    duration: number
+  ): GainNode | null {
+    if (effect?.type !== 'volumeSlide' && effect?.type !== 'cut') return null
+
+    const node = context.createGain()
+    const tick = this.tickTime(tempo)
+    node.gain.setValueAtTime(1, startTime)
+
+    if (effect.type === 'cut') {
+      node.gain.setValueAtTime(0, startTime + effect.param * tick)
+    } else {
+      // x slides up and y slides down by 1/16 of the note's level per tick
+      const perTick = ((effect.param >> 4) - (effect.param & 0xF)) / 16
+      const target = Math.max(0, Math.min(2, 1 + perTick * (duration / tick)))
+      node.gain.linearRampToValueAtTime(target, startTime + Math.max(0.001, duration))
+    }
+
+    return node
+  }
+
+  /**
+   * Create a bitcrusher node for one voice
+   * Returns null when the worklet is not loaded on this context
+   */
+  static createBitcrusher(
+    context: BaseAudioContext,
+    effects: EffectParams,
+    stopTime: number
+  ): AudioNode | null {
+    if (!this.loadedContexts.has(context)) return null
+
+    const node = new AudioWorkletNode(context, 'bitcrusher', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { stopTime },
+    })
+    node.parameters.get('bits')?.setValueAtTime(Math.max(1, Math.min(16, effects.bitcrushBits)), 0)
+    node.parameters.get('normfreq')?.setValueAtTime(Math.max(0.01, Math.min(1, effects.bitcrushFreq)), 0)
+
+    return node
+  }
+}
@@ -0,0 +1,110 @@
+import type { InstrumentConfig, InstrumentMacros, MacroSequence } from '@/types/instrument'
+
+// A sequence that keeps looping after release still stops this long after the note ends
+const MAX_RELEASE_SECONDS = 2
+
+/**
+ * Tracker-style instrument macros: sequences stepped once per tick (60Hz NTSC or 50Hz PAL)
+ * with FamiTracker loop and release rules
+ */
+export class ChipMacros {
+  /**
+   * Step after `step` on the next tick
+   * A held note waits at the release step (or loops back to an earlier loop step);
+   * once released it carries on past the release step
+   */
+  static nextStep(sequence: MacroSequence, step: number, released: boolean): number {
+    const { values, loop, release } = sequence
+    const last = values.length - 1
+
+    if (release >= 0 && step <= release) {
+      if (released) return Math.min(release + 1, last)
+      if (step === release) return loop >= 0 && loop < release ? loop : release
+    }
+    if (step < last) return step + 1
+
+    // Past the release only a loop after the release point repeats
+    return loop >= 0 && (release < 0 || loop > release) ? loop : last
+  }
+
+  /**
+   * A sequence's value on every tick of `length` seconds, for a note released after `duration` seconds
+   */
+  static tickValues(sequence: MacroSequence, rate: number, duration: number, length: number): number[] {
+    const values: number[] = []
+    if (sequence.values.length === 0) return values
+
+    const releaseTick = Math.max(1, Math.round(duration * rate))
+    const ticks = Math.max(1, Math.ceil(length * rate))
+    let step = 0
+    for (let tick = 0; tick < ticks; tick++) {
+      values.push(sequence.values[step])
+      step = this.nextStep(sequence, step, tick + 1 >= releaseTick)
+    }
+    return values
+  }
+
+  /**
+   * Seconds a voice keeps sounding after its note ends: the volume macro's part after
+   * the release step (one tick when it has none), otherwise the ADSR release
+   */
+  static releaseTime(config: InstrumentConfig): number {
+    const volume = config.macros?.volume
+    if (!volume) return config.adsr.release
+
+    const { rate } = config.macros!
+    if (volume.release < 0) return 1 / rate
+    if (volume.loop > volume.release) return MAX_RELEASE_SECONDS
+    return Math.max(1, volume.values.length - 1 - volume.release) / rate
+  }
+
+  /**
+   * Volume (0 to 1 of the instrument's gain) on every tick, ending silent
+   */
+  static volumeLevels(macros: InstrumentMacros, duration: number, release: number): number[] {
+    if (!macros.volume) return []
+    const levels = this.tickValues(macros.volume, macros.rate, duration, duration + release)
+      .map(v => Math.max(0, Math.min(15, v)) / 15)
+    return [...levels, 0]
+  }
+
+  /**
+   * Semitones the arpeggio and pitch macros add on every tick, or null when there are neither
+   * A note's own arpeggio command replaces the arpeggio macro
+   */
+  static pitchOffsets(macros: InstrumentMacros, duration: number, length: number, withArpeggio: boolean): number[] | null {
+    const arpeggio = withArpeggio && macros.arpeggio ? this.tickValues(macros.arpeggio, macros.rate, duration, length) : null
+    const pitch = macros.pitch ? this.tickValues(macros.pitch, macros.rate, duration, length) : null
+    if (!arpeggio && !pitch) return null
+
+    const ticks = Math.max(arpeggio?.length ?? 0, pitch?.length ?? 0)
+    const offsets: number[] = []
+    let bend = 0
+    for (let tick = 0; tick < ticks; tick++) {
+      bend += (pitch?.[tick] ?? 0) / 16
+      offsets.push((arpeggio?.[tick] ?? 0) + bend)
+    }
+    return offsets
+  }
+
+  /**
+   * Duty index (0-3) on every tick, or null without a duty macro
+   */
+  static dutySteps(macros: InstrumentMacros, duration: number, length: number): number[] | null {
+    if (!macros.duty) return null
+    return this.tickValues(macros.duty, macros.rate, duration, length).map(v => Math.max(0, Math.min(3, v)))
+  }
+
+  /**
+   * Set a param to each tick's value, only where it changes
+   */
+  static scheduleTicks(param: AudioParam, values: number[], rate: number, startTime: number, from = startTime): void {
+    let previous: number | undefined
+    values.forEach((value, tick) => {
+      const time = startTime + tick / rate
+      if (time < from || value === previous) return
+      param.setValueAtTime(value, time)
+      previous = value
+    })
+  }
+}
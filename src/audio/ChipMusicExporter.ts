@@ -0,0 +1,306 @@
+import { ApuRegisters, type RegisterWrite } from './ApuRegisters'
+import { ChipSequencer, type ChipIssue, type ChipSequence, type ChipSequenceOptions } from './ChipSequencer'
+
+export interface ChipMusicOptions extends ChipSequenceOptions {
+  title: string
+  author?: string
+}
+
+/**
+ * An exported chip music file with everything the chip could not play
+ * blob is null when the song does not fit the format
+ */
+export interface ChipMusicFile {
+  blob: Blob | null
+  extension: string
+  issues: ChipIssue[]
+}
+
+const VGM_SAMPLE_RATE = 44100
+const VGM_HEADER_SIZE = 0x100
+
+// VGM chip clocks and register write commands
+const VGM_CHIPS = {
+  nes: { clockOffset: 0x84, clock: 1789772, command: 0xB4, system: 'Nintendo Entertainment System' },
+  gameboy: { clockOffset: 0x80, clock: 4194304, command: 0xB3, system: 'Nintendo Game Boy' },
+}
+
+// Driver stream bytes: 0x00 ends a frame, 0xFE jumps to the loop, anything else is register + 1 and a value
+const STREAM_END_FRAME = 0x00
+const STREAM_LOOP = 0xFE
+
+const NSF_LOAD = 0x8000
+const NSF_HEADER_SIZE = 0x80
+const NSF_MAX_SIZE = 0x8000       // $8000-$FFFF without bank switching
+const NSF_NTSC_SPEED = 16639      // Play calls every 16639 microseconds (60.1 Hz)
+
+const GBS_LOAD = 0x0400
+const GBS_HEADER_SIZE = 0x70
+const GBS_MAX_SIZE = 0x7C00       // $0400-$7FFF without a mapper
+
+/**
+ * Register-level chip music exporter: VGM logs, and NSF / GBS images that carry
+ * a small driver playing the register writes back once per frame
+ */
+export class ChipMusicExporter {
+  /**
+   * VGM 1.61 log of the chip's register writes, looping at the loop start
+   */
+  static exportToVgm(options: ChipMusicOptions): ChipMusicFile {
+    const sequence = ChipSequencer.build(options)
+    const chip = VGM_CHIPS[sequence.profile.id === 'gameboy' ? 'gameboy' : 'nes']
+    const writes = this.frameWrites(sequence)
+    const rate = sequence.profile.driverRate
+
+    const data: number[] = []
+    let loopOffset = 0
+    let loopSample = 0
+    let samples = 0
+
+    writes.forEach((frame, index) => {
+      if (index === sequence.loopFrame) {
+        loopOffset = data.length
+        loopSample = samples
+      }
+      for (const [register, value] of frame) {
+        data.push(chip.command, register, value)
+      }
+
+      const wait = Math.round(((index + 1) * VGM_SAMPLE_RATE) / rate) - Math.round((index * VGM_SAMPLE_RATE) / rate)
+      if (wait === 735) {
+        data.push(0x62)
+      } else if (wait === 882) {
+        data.push(0x63)
+      } else {
+        data.push(0x61, wait & 0xFF, wait >> 8)
+      }
+      samples += wait
+    })
+    data.push(0x66)
+
+    const gd3 = this.createGd3([
+      options.title, '', '', '', chip.system, '', options.author ?? '', '', '', 'Pixel Game Music Generator', '',
+    ])
+    const bytes = new Uint8Array(VGM_HEADER_SIZE + data.length + gd3.length)
+    const view = new DataView(bytes.buffer)
+
+    this.writeString(bytes, 0x00, 'Vgm ')
+    view.setUint32(0x04, bytes.length - 0x04, true)
+    view.setUint32(0x08, 0x161, true)
+    view.setUint32(0x14, VGM_HEADER_SIZE + data.length - 0x14, true)
+    view.setUint32(0x18, samples, true)
+    view.setUint32(0x1C, VGM_HEADER_SIZE + loopOffset - 0x1C, true)
+    view.setUint32(0x20, samples - loopSample, true)
+    view.setUint32(0x24, Math.round(rate), true)
+    view.setUint32(0x34, VGM_HEADER_SIZE - 0x34, true)
+    view.setUint32(chip.clockOffset, chip.clock, true)
+    bytes.set(data, VGM_HEADER_SIZE)
+    bytes.set(gd3, VGM_HEADER_SIZE + data.length)
+
+    return { blob: new Blob([bytes], { type: 'audio/x-vgm' }), extension: 'vgm', issues: sequence.issues }
+  }
+
+  /**
+   * NSF (NES) or GBS (Game Boy) image: the driver plus the song's register stream
+   * Songs too long for the address space without bank switching are reported and not exported
+   */
+  static exportToDriverImage(options: ChipMusicOptions): ChipMusicFile {
+    const sequence = ChipSequencer.build(options)
+    const isGameBoy = sequence.profile.id === 'gameboy'
+    const extension = isGameBoy ? 'gbs' : 'nsf'
+    const load = isGameBoy ? GBS_LOAD : NSF_LOAD
+    const maxSize = isGameBoy ? GBS_MAX_SIZE : NSF_MAX_SIZE
+    const driverSize = isGameBoy ? this.gameBoyDriver(0, 0).length : this.nesDriver(0, 0).length
+
+    const stream: number[] = []
+    let loopOffset = 0
+    this.frameWrites(sequence).forEach((frame, index) => {
+      if (index === sequence.loopFrame) loopOffset = stream.length
+      for (const [register, value] of frame) {
+        stream.push(register + 1, value)
+      }
+      stream.push(STREAM_END_FRAME)
+    })
+    stream.push(STREAM_LOOP)
+
+    const size = driverSize + stream.length
+    if (size > maxSize) {
+      const issue = {
+        message: `Song needs ${Math.ceil(size / 1024)} KB but a ${extension.toUpperCase()} without bank switching holds ${maxSize / 1024} KB; shorten the loop`,
+        count: 1,
+      }
+      return { blob: null, extension, issues: [...sequence.issues, issue] }
+    }
+
+    const dataAddress = load + driverSize
+    const loopAddress = dataAddress + loopOffset
+    const driver = isGameBoy ? this.gameBoyDriver(dataAddress, loopAddress) : this.nesDriver(dataAddress, loopAddress)
+    const header = isGameBoy ? this.createGbsHeader(options) : this.createNsfHeader(options)
+
+    const bytes = new Uint8Array(header.length + size)
+    bytes.set(header, 0)
+    bytes.set(driver, header.length)
+    bytes.set(stream, header.length + driver.length)
+
+    return { blob: new Blob([bytes], { type: 'application/octet-stream' }), extension, issues: sequence.issues }
+  }
+
+  /**
+   * Register writes per frame; the loop frame writes the whole chip state again
+   * so the song sounds the same after jumping back to it
+   */
+  private static frameWrites(sequence: ChipSequence): RegisterWrite[][] {
+    const { profile, frames, loopFrame } = sequence
+    const shadow = new Map<number, number>()
+
+    return frames.map((frame, index) => {
+      if (index === loopFrame) shadow.clear()
+      const init = index === 0 ? ApuRegisters.init(profile) : []
+      return [...init, ...ApuRegisters.frame(profile, frame, shadow)]
+    })
+  }
+
+  /**
+   * 6502 driver at $8000: init points $00-$01 at the stream, play writes one frame to $4000+
+   */
+  private static nesDriver(dataAddress: number, loopAddress: number): number[] {
+    const [dataLow, dataHigh] = [dataAddress & 0xFF, dataAddress >> 8]
+    const [loopLow, loopHigh] = [loopAddress & 0xFF, loopAddress >> 8]
+    const play = NSF_LOAD + 9
+
+    return [
+      // init
+      0xA9, dataLow, 0x85, 0x00,   // LDA #<data / STA $00
+      0xA9, dataHigh, 0x85, 0x01,  // LDA #>data / STA $01
+      0x60,                        // RTS
+      // play
+      0xA0, 0x00,                  // LDY #0
+      0xB1, 0x00,                  // next: LDA ($00),Y
+      0xF0, 0x0E,                  // BEQ done
+      0xC9, STREAM_LOOP,           // CMP #$FE
+      0xF0, 0x16,                  // BEQ jump
+      0xAA,                        // TAX
+      0xC8,                        // INY
+      0xB1, 0x00,                  // LDA ($00),Y
+      0x9D, 0xFF, 0x3F,            // STA $3FFF,X
+      0xC8,                        // INY
+      0xD0, 0xEE,                  // BNE next
+      0xC8,                        // done: INY
+      0x98,                        // TYA
+      0x18,                        // CLC
+      0x65, 0x00,                  // ADC $00
+      0x85, 0x00,                  // STA $00
+      0x90, 0x02,                  // BCC +2
+      0xE6, 0x01,                  // INC $01
+      0x60,                        // RTS
+      0xA9, loopLow, 0x85, 0x00,   // jump: LDA #<loop / STA $00
+      0xA9, loopHigh, 0x85, 0x01,  // LDA #>loop / STA $01
+      0x4C, play & 0xFF, play >> 8, // JMP play
+    ]
+  }
+
+  /**
+   * SM83 driver at $0400: init keeps the stream pointer in $FF80-$FF81, play writes one frame to $FF10+
+   */
+  private static gameBoyDriver(dataAddress: number, loopAddress: number): number[] {
+    return [
+      // init
+      0x3E, dataAddress & 0xFF,    // LD A,<data
+      0xE0, 0x80,                  // LDH ($80),A
+      0x3E, dataAddress >> 8,      // LD A,>data
+      0xE0, 0x81,                  // LDH ($81),A
+      0xC9,                        // RET
+      // play
+      0xF0, 0x80,                  // LDH A,($80)
+      0x6F,                        // LD L,A
+      0xF0, 0x81,                  // LDH A,($81)
+      0x67,                        // LD H,A
+      0x2A,                        // next: LD A,(HL+)
+      0xB7,                        // OR A
+      0x28, 0x0B,                  // JR Z,done
+      0xFE, STREAM_LOOP,           // CP $FE
+      0x28, 0x0E,                  // JR Z,jump
+      0xC6, 0x0F,                  // ADD A,$0F
+      0x4F,                        // LD C,A
+      0x2A,                        // LD A,(HL+)
+      0xE2,                        // LDH (C),A
+      0x18, 0xF1,                  // JR next
+      0x7D,                        // done: LD A,L
+      0xE0, 0x80,                  // LDH ($80),A
+      0x7C,                        // LD A,H
+      0xE0, 0x81,                  // LDH ($81),A
+      0xC9,                        // RET
+      0x21, loopAddress & 0xFF, loopAddress >> 8, // jump: LD HL,loop
+      0x18, 0xE5,                  // JR next
+    ]
+  }
+
+  private static createNsfHeader(options: ChipMusicOptions): Uint8Array {
+    const header = new Uint8Array(NSF_HEADER_SIZE)
+    const view = new DataView(header.buffer)
+
+    this.writeString(header, 0x00, 'NESM\x1A')
+    header[0x05] = 1                      // Version
+    header[0x06] = 1                      // Songs
+    header[0x07] = 1                      // First song
+    view.setUint16(0x08, NSF_LOAD, true)
+    view.setUint16(0x0A, NSF_LOAD, true)  // init
+    view.setUint16(0x0C, NSF_LOAD + 9, true) // play
+    this.writeString(header, 0x0E, this.toAscii(options.title, 31))
+    this.writeString(header, 0x2E, this.toAscii(options.author ?? '', 31))
+    view.setUint16(0x6E, NSF_NTSC_SPEED, true)
+    view.setUint16(0x78, 19997, true)     // PAL speed (the song is timed for NTSC)
+
+    return header
+  }
+
+  private static createGbsHeader(options: ChipMusicOptions): Uint8Array {
+    const header = new Uint8Array(GBS_HEADER_SIZE)
+    const view = new DataView(header.buffer)
+
+    this.writeString(header, 0x00, 'GBS')
+    header[0x03] = 1                      // Version
+    header[0x04] = 1                      // Songs
+    header[0x05] = 1                      // First song
+    view.setUint16(0x06, GBS_LOAD, true)
+    view.setUint16(0x08, GBS_LOAD, true)  // init
+    view.setUint16(0x0A, GBS_LOAD + 9, true) // play
+    view.setUint16(0x0C, 0xFFFE, true)    // Stack pointer
+    // Timer modulo and control stay 0: play runs on vertical blank
+    this.writeString(header, 0x10, this.toAscii(options.title, 31))
+    this.writeString(header, 0x30, this.toAscii(options.author ?? '', 31))
+
+    return header
+  }
+
+  /**
+   * GD3 tag: the VGM's title, system and author as UTF-16 strings
+   */
+  private static createGd3(fields: string[]): Uint8Array {
+    const text = fields.map(field => field + '\0').join('')
+    const bytes = new Uint8Array(12 + text.length * 2)
+    const view = new DataView(bytes.buffer)
+
+    this.writeString(bytes, 0, 'Gd3 ')
+    view.setUint32(4, 0x100, true)
+    view.setUint32(8, text.length * 2, true)
+    for (let i = 0; i < text.length; i++) {
+      view.setUint16(12 + i * 2, text.charCodeAt(i), true)
+    }
+
+    return bytes
+  }
+
+  /**
+   * Printable ASCII only, cut to a header field
+   */
+  private static toAscii(text: string, maxLength: number): string {
+    return text.replace(/[^\x20-\x7E]/g, '?').slice(0, maxLength)
+  }
+
+  private static writeString(bytes: Uint8Array, offset: number, text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      bytes[offset + i] = text.charCodeAt(i)
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import type { InstrumentConfig } from '@/types/instrument'
+import type { NoteEffect } from '@/types/note'
+import type { DrumPad } from '@/types/drumKit'
+import type { ConsoleProfile, HardwareVoice } from '@/types/console'
+import type { RenderOptions } from './AudioRenderer'
+import { Arrangement } from './Arrangement'
+import { Automation } from './Automation'
+import { ChipEffects } from './ChipEffects'
+import { ChipMacros } from './ChipMacros'
+import { ChipSynth } from './ChipSynth'
+import { ConsoleChip } from './ConsoleChip'
+import { getDrumPad } from '@/data/drumKits'
+import { DUTY_CYCLES } from '@/data/noteEffects'
+
+export interface ChipSequenceOptions
+  extends Pick<
+    RenderOptions,
+    'tracks' | 'instruments' | 'drumKit' | 'tempo' | 'introStart' | 'loopStart' | 'loopEnd' | 'arrangement' | 'automation'
+  > {
+  profile: ConsoleProfile
+  autoAssign?: boolean     // Give tracks the channels switching to the profile would, instead of their own
+}
+
+/**
+ * What one channel plays during one sound driver frame
+ */
+export interface ChannelFrame {
+  volume: number           // Volume register step; 0 is silent
+  period: number           // Tone channels: clock / (divider * frequency)
+  duty: number             // Index into the profile's duty cycles
+  noise: number            // Index into the profile's noise rates
+  shortNoise: boolean
+  wave: number[]           // 4-bit table of the Game Boy wave channel
+  trigger: boolean         // A note starts on this frame
+}
+
+/**
+ * Something the project does that the chip could not, with how often it happened
+ */
+export interface ChipIssue {
+  message: string
+  count: number
+}
+
+/**
+ * A project flattened to per-frame channel states
+ */
+export interface ChipSequence {
+  profile: ConsoleProfile
+  frames: ChannelFrame[][]   // Per frame, one state per profile channel
+  loopFrame: number
+  issues: ChipIssue[]
+}
+
+// A note or drum hit on a channel, in seconds from the start of the song
+interface ChannelEvent {
+  owner: string             // Track name, for issues
+  start: number
+  end: number               // Note off (a later note starting before this cuts the event)
+  stop: number              // Silent from here
+  state: (elapsed: number) => Omit<ChannelFrame, 'trigger'>
+}
+
+type Report = (message: string) => void
+
+/**
+ * Turns a project into the frame-by-frame channel states a sound driver plays,
+ * following the same console limits as live playback, and lists what was lost
+ */
+export class ChipSequencer {
+  static build(options: ChipSequenceOptions): ChipSequence {
+    const { profile, instruments, drumKit, tempo, loopStart, loopEnd, introStart = loopStart, arrangement, automation } = options
+
+    const issues = new Map<string, number>()
+    const report: Report = message => issues.set(message, (issues.get(message) ?? 0) + 1)
+
+    const tracks = arrangement ? Arrangement.arrangeTracks(options.tracks, arrangement) : options.tracks
+    const assigned = options.autoAssign ? ConsoleChip.assignChannels(tracks, profile) : undefined
+    const tempoAt = (beat: number) => Automation.tempoAt(beat, automation, arrangement) ?? tempo
+    const timeAt = Automation.timeline(introStart, loopEnd, tempoAt)
+    const events = profile.channels.map((): ChannelEvent[] => [])
+
+    for (const track of tracks) {
+      const config = instruments[track.id]
+      if (!config) continue
+
+      const voice = ConsoleChip.getVoice(profile, { channel: assigned ? assigned[track.id] : track.channel })
+      if (!voice) {
+        report(`${track.name} has no ${profile.name} channel and was left out`)
+        continue
+      }
+      if (config.effects.bitcrush) {
+        report(`${track.name}: bitcrush has no ${profile.name} equivalent`)
+      }
+
+      const channelEvents = events[profile.channels.indexOf(voice.channel)]
+      const orderedNotes = [...track.notes].sort((a, b) => a.startBeat - b.startBeat)
+      let previousPitch: number | undefined
+
+      for (const note of orderedNotes) {
+        if (note.startBeat < introStart || note.startBeat >= loopEnd) continue
+
+        const noteTempo = tempoAt(note.startBeat)
+        const start = timeAt(note.startBeat) + ChipEffects.noteDelay(note.effect, noteTempo)
+        const end = Math.max(start, timeAt(note.startBeat + note.duration))
+
+        // Automated values are sampled where each note starts, as in playback
+        const automated = Automation.applyToTrack(track, config, Automation.locate(note.startBeat, automation, arrangement))
+        const peak = config.gain * automated.volume * note.velocity
+
+        const event = track.type === 'drums'
+          ? this.drumEvent(voice, getDrumPad(drumKit, note.pitch), peak, start, track.name, report)
+          : this.noteEvent(voice, automated.config, note.pitch, previousPitch, note.effect, noteTempo, peak, start, end, track.name, report)
+
+        if (event) channelEvents.push(event)
+        previousPitch = note.pitch
+      }
+    }
+
+    const frameCount = Math.max(1, Math.round(timeAt(loopEnd) * profile.driverRate))
+    const loopFrame = Math.min(frameCount - 1, Math.round(timeAt(loopStart) * profile.driverRate))
+    const channelFrames = events.map((list, index) =>
+      this.frameChannel(list, frameCount, profile, profile.channels[index].name, report)
+    )
+
+    return {
+      profile,
+      frames: Array.from({ length: frameCount }, (_, frame) => channelFrames.map(frames => frames[frame])),
+      loopFrame,
+      issues: [...issues].map(([message, count]) => ({ message, count })),
+    }
+  }
+
+  /**
+   * Sample a channel's events once per driver frame; the latest note to start sounds
+   */
+  private static frameChannel(
+    events: ChannelEvent[],
+    frameCount: number,
+    profile: ConsoleProfile,
+    channelName: string,
+    report: Report
+  ): ChannelFrame[] {
+    events.sort((a, b) => a.start - b.start)
+    for (let i = 0; i + 1 < events.length; i++) {
+      if (events[i + 1].start < events[i].end || events[i + 1].start === events[i].start) {
+        report(`${events[i].owner}: notes cut short by a later note on ${channelName}`)
+      }
+    }
+
+    const frames: ChannelFrame[] = []
+    let previous: ChannelFrame = {
+      volume: 0,
+      period: 0,
+      duty: profile.dutyCycles.indexOf(0.5),
+      noise: 0,
+      shortNoise: false,
+      wave: [],
+      trigger: false,
+    }
+    let index = -1
+    let started = -1
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const time = frame / profile.driverRate
+      while (index + 1 < events.length && events[index + 1].start <= time) index++
+
+      const event = events[index]
+      if (event && time < event.stop) {
+        previous = { ...event.state(time - event.start), trigger: index !== started }
+        started = index
+      } else {
+        previous = { ...previous, volume: 0, trigger: false }
+      }
+      frames.push(previous)
+    }
+
+    return frames
+  }
+
+  /**
+   * A synth note with its envelope, pitch effects and tracker command
+   */
+  private static noteEvent(
+    voice: HardwareVoice,
+    config: InstrumentConfig,
+    pitch: number,
+    previousPitch: number | undefined,
+    effect: NoteEffect | undefined,
+    tempo: number,
+    peak: number,
+    start: number,
+    end: number,
+    owner: string,
+    report: Report
+  ): ChannelEvent | null {
+    const { profile, channel } = voice
+    const { adsr, effects, pulseWidth, detune, macros } = config
+    const waveform = config.waveform === 'sample' ? 'square' : config.waveform
+    const duration = end - start
+    const tick = ChipEffects.tickTime(tempo)
+    const release = ChipMacros.releaseTime(config)
+
+    if (channel.kind === 'dpcm') {
+      report(`${owner}: notes on ${channel.name} are not exported (samples need a DMC driver)`)
+      return null
+    }
+    if (channel.kind !== 'noise' && !ConsoleChip.inRange(voice, ChipSynth.midiToFrequency(pitch))) {
+      report(`${owner}: notes outside ${channel.name}'s range were moved into it`)
+    }
+    if (channel.kind === 'triangle' && (peak < 1 || adsr.sustain < 1 || macros?.volume || effect?.type === 'volumeSlide')) {
+      report(`${owner}: ${channel.name} has no volume control, so note volumes play at full level`)
+    }
+
+    // Arpeggio steps, a note's own command replacing the instrument's
+    const arpeggio = effect?.type === 'arpeggio'
+      ? { pattern: [0, effect.param >> 4, effect.param & 0xF], step: tick }
+      : effects.arpeggio && !macros?.arpeggio
+        ? {
+            pattern: effects.arpeggioPattern.length > 0 ? effects.arpeggioPattern : [0],
+            step: ChipEffects.arpeggioStepTime(effects, tempo),
+          }
+        : null
+
+    // Glide from the previous note, in semitones, as in ChipSynth
+    let glideFrom = 0
+    let glideTime = 0
+    if (effect?.type === 'portamento') {
+      if (previousPitch !== undefined && effect.param > 0) {
+        glideFrom = previousPitch - pitch
+        glideTime = (Math.abs(glideFrom) / (effect.param / 16)) * tick
+      }
+    } else if (effect?.type !== 'slideUp' && effect?.type !== 'slideDown' && effects.glide && previousPitch !== undefined) {
+      glideFrom = previousPitch - pitch
+      glideTime = Math.max(0.001, effects.glideTime)
+    }
+
+    const slide = effect?.type === 'slideUp' ? effect.param / 16 : effect?.type === 'slideDown' ? -effect.param / 16 : 0
+    const duty = profile.dutyCycles.indexOf(ConsoleChip.pulseDuty(profile, waveform, pulseWidth, effect))
+    const noiseRate = ConsoleChip.noiseRateForPitch(profile, pitch)
+    const wave = ConsoleChip.waveTable(channel, waveform, pulseWidth)
+
+    // Macro values per macro tick, which need not match the driver's frame rate
+    const length = duration + release
+    const volumeLevels = macros?.volume ? ChipMacros.volumeLevels(macros, duration, release) : null
+    const pitchOffsets = macros ? ChipMacros.pitchOffsets(macros, duration, length, effect?.type !== 'arpeggio') : null
+    const dutySteps = macros && channel.kind === 'pulse' && effect?.type !== 'duty' ? ChipMacros.dutySteps(macros, duration, length) : null
+    // PWM picks the chip duty nearest the swept width on every frame
+    const pwm = effects.pwm && channel.kind === 'pulse' && waveform === 'pulse' && effect?.type !== 'duty' && !dutySteps
+    const macroValue = (values: number[], elapsed: number) =>
+      values[Math.max(0, Math.min(values.length - 1, Math.floor(elapsed * macros!.rate)))]
+
+    const noteVolume = (elapsed: number): number => {
+      if (effect?.type === 'cut') return elapsed >= effect.param * tick ? 0 : 1
+      if (effect?.type !== 'volumeSlide') return 1
+      const perTick = ((effect.param >> 4) - (effect.param & 0xF)) / 16
+      return Math.max(0, Math.min(2, 1 + perTick * (Math.min(elapsed, duration) / tick)))
+    }
+
+    return {
+      owner,
+      start,
+      end,
+      stop: start + (volumeLevels ? length : ConsoleChip.envelopeLength(adsr, duration)),
+      state: elapsed => {
+        let semitones = detune / 100 + slide * (elapsed / tick)
+        if (arpeggio) semitones += arpeggio.pattern[Math.floor(elapsed / arpeggio.step) % arpeggio.pattern.length]
+        if (glideTime > 0 && elapsed < glideTime) semitones += glideFrom * (1 - elapsed / glideTime)
+        if (effects.vibrato) semitones += effects.vibratoDepth * Math.sin(2 * Math.PI * effects.vibratoSpeed * elapsed)
+        if (pitchOffsets) semitones += macroValue(pitchOffsets, elapsed)
+
+        const envelope = volumeLevels ? macroValue(volumeLevels, elapsed) : ConsoleChip.envelopeLevel(adsr, duration, elapsed)
+        const level = peak * envelope * noteVolume(elapsed)
+        return {
+          volume: ConsoleChip.volumeStep(profile, level),
+          period: ConsoleChip.periodFor(voice, ChipSynth.midiToFrequency(pitch + semitones)),
+          duty: dutySteps
+            ? profile.dutyCycles.indexOf(ConsoleChip.snapDuty(profile, DUTY_CYCLES[macroValue(dutySteps, elapsed)]))
+            : pwm
+              ? profile.dutyCycles.indexOf(ConsoleChip.snapDuty(profile, ChipEffects.pwmWidth(pulseWidth, effects, elapsed)))
+              : duty,
+          noise: profile.noiseRates.indexOf(noiseRate),
+          shortNoise: effect?.type === 'duty' && effect.param > 0,
+          wave,
+        }
+      },
+    }
+  }
+
+  /**
+   * A drum hit, played by the first layer the channel can play
+   */
+  private static drumEvent(
+    voice: HardwareVoice,
+    pad: DrumPad | undefined,
+    peak: number,
+    start: number,
+    owner: string,
+    report: Report
+  ): ChannelEvent | null {
+    const { profile, channel } = voice
+    if (!pad) return null
+
+    if (channel.kind === 'dpcm') {
+      report(`${owner}: drum hits on ${channel.name} are not exported (samples need a DMC driver)`)
+      return null
+    }
+
+    const layers = pad.layers.filter(layer => ConsoleChip.playsLayer(channel, layer))
+    if (layers.length === 0) {
+      report(`${owner}: ${pad.name} has nothing ${channel.name} can play`)
+      return null
+    }
+    if (pad.layers.length > 1) {
+      report(`${owner}: ${pad.name} plays only one of its layers`)
+    }
+
+    const [layer] = layers
+    const decay = Math.max(0.005, layer.decay)
+    const noise = ConsoleChip.drumNoise(profile, layer)
+    const duty = profile.dutyCycles.indexOf(ConsoleChip.snapDuty(profile, 0.5))
+    const wave = ConsoleChip.waveTable(channel, layer.source, 0.5)
+    const sweeps = layer.sweep > 0 && layer.pitchEnd !== layer.pitch
+
+    return {
+      owner,
+      start: start + layer.delay,
+      end: start + layer.delay,
+      stop: start + layer.delay + decay,
+      state: elapsed => {
+        const frequency = sweeps
+          ? layer.pitch * Math.pow(Math.max(1, layer.pitchEnd) / layer.pitch, Math.min(elapsed, layer.sweep) / layer.sweep)
+          : layer.pitch
+        return {
+          volume: ConsoleChip.volumeStep(profile, peak * layer.level * Math.max(0, 1 - elapsed / decay)),
+          period: ConsoleChip.periodFor(voice, frequency),
+          duty,
+          noise: profile.noiseRates.indexOf(noise.rate),
+          shortNoise: noise.short,
+          wave,
+        }
+      },
+    }
+  }
+}
@@ -0,0 +1,899 @@
+import type { ADSRParams, InstrumentConfig } from '@/types/instrument'
+import type { NoteEffect } from '@/types/note'
+import type { DrumLayer, DrumPad } from '@/types/drumKit'
+import type { ConsoleProfile, HardwareVoice } from '@/types/console'
+import { ChipEffects } from './ChipEffects'
+import { ChipMacros } from './ChipMacros'
+import { ConsoleChip } from './ConsoleChip'
+import { SampleBank } from './SampleBank'
+import { DUTY_CYCLES, TICKS_PER_STEP } from '@/data/noteEffects'
+
+export interface NoteOptions {
+  channel?: string   // Voice channel (track id) used to glide between consecutive notes
+  tempo?: number     // BPM, used for arpeggio step timing
+  effect?: NoteEffect  // Per-note tracker command
+  hardware?: HardwareVoice  // Console channel the note plays on, with its limits
+}
+
+/**
+ * A note that sounds until it is released (live keyboard play)
+ */
+export interface HeldVoice {
+  release(time: number): void
+}
+
+// Nodes of one sounding voice, kept so it can be released early
+interface Voice {
+  sources: AudioScheduledSourceNode[]
+  gainNode: GainNode
+  startTime: number
+  dutyGates?: DutyGate[]     // Duty macro gates, rescheduled when a held note is released
+  pitchOffset?: AudioParam   // Arpeggio / pitch macro offset in cents, likewise
+}
+
+// Gain that lets one duty's oscillator through on the ticks the duty macro picks it
+interface DutyGate {
+  duty: number
+  gain: AudioParam
+}
+
+// A held note that is never released still stops after this long
+const MAX_HOLD_SECONDS = 10
+
+// Pulse widths are rounded to 1/200 of a cycle, so nearby widths share a wave
+const PULSE_WIDTH_STEPS = 200
+
+/**
+ * Chiptune synthesis core shared by live playback and offline rendering
+ * Works on any BaseAudioContext so both paths produce identical voices
+ */
+export class ChipSynth {
+  private context: BaseAudioContext
+  private destination: AudioNode
+  private pulseWaves: Map<number, PeriodicWave> = new Map()
+  private pwmCurve: Float32Array | null = null
+  private lastPitches: Map<string, number> = new Map()
+  private sampleBuffers: Map<string, AudioBuffer> = new Map()
+  private lfsrBuffers: Map<string, AudioBuffer> = new Map()
+  private steppedWaves: Map<string, PeriodicWave> = new Map()
+  private channelVoices: Map<string, Voice[]> = new Map()  // In start order
+
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context
+    this.destination = destination
+  }
+
+  /**
+   * Generate a pulse wave using Fourier series
+   * Based on the mathematical definition of a pulse wave
+   */
+  private generatePulseWave(dutyCycle: number): PeriodicWave {
+    const harmonics = 64
+    const real = new Float32Array(harmonics)
+    const imag = new Float32Array(harmonics)
+
+    // DC offset based on duty cycle
+    real[0] = 0
+
+    // Calculate harmonics using Fourier series for pulse wave
+    for (let n = 1; n < harmonics; n++) {
+      // Pulse wave Fourier coefficient: (2/nPI) * sin(n * PI * dutyCycle)
+      const coefficient = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * dutyCycle)
+      imag[n] = coefficient
+      real[n] = 0
+    }
+
+    return this.context.createPeriodicWave(real, imag, { disableNormalization: false })
+  }
+
+  /**
+   * Pulse wave for any duty cycle, generated the first time that width is played
+   */
+  private getPulseWave(dutyCycle: number): PeriodicWave {
+    const duty = Math.round(Math.max(0.01, Math.min(0.99, dutyCycle)) * PULSE_WIDTH_STEPS) / PULSE_WIDTH_STEPS
+    const cached = this.pulseWaves.get(duty)
+    if (cached) return cached
+
+    const wave = this.generatePulseWave(duty)
+    this.pulseWaves.set(duty, wave)
+    return wave
+  }
+
+  /**
+   * Convert MIDI note number to frequency
+   */
+  static midiToFrequency(midi: number): number {
+    return 440 * Math.pow(2, (midi - 69) / 12)
+  }
+
+  /**
+   * Play a single note with the given parameters
+   */
+  playNote(
+    pitch: number,
+    duration: number,
+    startTime: number,
+    config: InstrumentConfig,
+    options: NoteOptions = {}
+  ): void {
+    this.startVoice(pitch, duration, startTime, config, options)
+  }
+
+  /**
+   * Start a note that holds at the sustain level until released
+   */
+  holdNote(
+    pitch: number,
+    startTime: number,
+    config: InstrumentConfig,
+    options: NoteOptions = {}
+  ): HeldVoice {
+    const voice = this.startVoice(pitch, MAX_HOLD_SECONDS, startTime, config, options)
+    const release = ChipMacros.releaseTime(config)
+
+    return {
+      release: (time: number) => {
+        this.holdGain(voice, config, options, time)
+        if (config.macros?.volume) {
+          // The volume macro carries on past its release step from here
+          this.applyEnvelope(voice.gainNode, voice.startTime, time - voice.startTime, config, options.hardware, time)
+        } else if (options.hardware) {
+          // A console channel steps down through its own levels
+          this.applyEnvelope(voice.gainNode, voice.startTime, time - voice.startTime + release, config, options.hardware, time)
+        } else {
+          voice.gainNode.gain.linearRampToValueAtTime(0, time + release)
+        }
+        this.releaseMacros(voice, config, options, time)
+        voice.sources.forEach(source => source.stop(time + release + 0.05))
+      },
+    }
+  }
+
+  /**
+   * Drop a held note's envelope after `time` and keep the level it has reached then,
+   * which for a look-ahead release or a running attack is not the param's current value
+   */
+  private holdGain(voice: Voice, config: InstrumentConfig, options: NoteOptions, time: number): void {
+    const gain = voice.gainNode.gain
+    if (typeof gain.cancelAndHoldAtTime === 'function') {
+      gain.cancelAndHoldAtTime(time)
+      return
+    }
+
+    gain.cancelScheduledValues(time)
+    // Stepped envelopes already hold their last step; only the ramped ADSR needs its level set
+    if (!config.macros?.volume && !options.hardware) {
+      const level = ConsoleChip.envelopeLevel(config.adsr, MAX_HOLD_SECONDS, time - voice.startTime)
+      gain.setValueAtTime(config.gain * level, time)
+    }
+  }
+
+  /**
+   * Carry a held note's duty and pitch macros on past their release step from `time`,
+   * as the volume macro does
+   */
+  private releaseMacros(voice: Voice, config: InstrumentConfig, options: NoteOptions, time: number): void {
+    const { macros } = config
+    if (!macros) return
+
+    const duration = time - voice.startTime
+    const length = duration + ChipMacros.releaseTime(config)
+
+    const steps = voice.dutyGates && ChipMacros.dutySteps(macros, duration, length)
+    if (steps) {
+      for (const gate of voice.dutyGates!) {
+        gate.gain.cancelScheduledValues(time)
+        ChipMacros.scheduleTicks(gate.gain, steps.map(step => (step === gate.duty ? 1 : 0)), macros.rate, voice.startTime, time)
+      }
+    }
+
+    const offsets = voice.pitchOffset && ChipMacros.pitchOffsets(macros, duration, length, options.effect?.type !== 'arpeggio')
+    if (offsets) {
+      voice.pitchOffset!.cancelScheduledValues(time)
+      ChipMacros.scheduleTicks(voice.pitchOffset!, offsets.map(semitones => semitones * 100), macros.rate, voice.startTime, time)
+    }
+  }
+
+  /**
+   * Create and schedule the nodes for one note
+   * A console channel sounds one note at a time, so the note cuts the one before it
+   */
+  private startVoice(
+    pitch: number,
+    duration: number,
+    startTime: number,
+    config: InstrumentConfig,
+    options: NoteOptions
+  ): Voice {
+    const voice = this.createVoice(pitch, duration, startTime, config, options)
+    if (options.hardware) {
+      this.claimChannel(options.hardware.channel.id, voice)
+    }
+    return voice
+  }
+
+  private createVoice(
+    pitch: number,
+    duration: number,
+    startTime: number,
+    config: InstrumentConfig,
+    options: NoteOptions
+  ): Voice {
+    const { effects, pulseWidth, detune } = config
+    const { channel, tempo = 120, effect, hardware } = options
+    const kind = hardware?.channel.kind
+    // Hardware pitches fall on the period register's steps
+    const tune = (f: number) => (hardware ? ConsoleChip.quantizeFrequency(hardware, f) : f)
+    const frequency = tune(ChipSynth.midiToFrequency(pitch))
+    // The channel decides the waveform; the instrument's only shapes it where the chip allows
+    const waveform = kind === 'noise' ? 'noise' : kind === 'dpcm' ? 'sample' : hardware && config.waveform === 'sample' ? 'square' : config.waveform
+
+    // A delayed note still ends where it was written
+    const delay = ChipEffects.noteDelay(effect, tempo)
+    startTime += delay
+    duration = Math.max(0, duration - delay)
+
+    const stopTime = startTime + duration + ChipMacros.releaseTime(config) + 0.05
+
+    // Output goes through a per-voice bitcrusher when enabled (consoles have none)
+    const output = hardware ? this.destination : this.createOutput(config, stopTime)
+
+    // Volume slide and note cut get their own gain stage after the envelope
+    const noteVolume = ChipEffects.createNoteVolume(this.context, effect, tempo, startTime, duration)
+    noteVolume?.connect(output)
+    const voiceOutput = noteVolume ?? output
+
+    if (waveform === 'noise' && hardware) {
+      // Duty commands switch the LFSR to its short, metallic mode
+      const short = effect?.type === 'duty' && effect.param > 0
+      const rate = ConsoleChip.noiseRateForPitch(hardware.profile, pitch)
+      return this.playLfsrNoise(hardware, rate, short, duration, startTime, config, voiceOutput)
+    }
+
+    if (waveform === 'noise') {
+      // For noise, we'll use a noise buffer instead
+      return this.playNoise(duration, startTime, config, voiceOutput)
+    }
+
+    if (waveform === 'sample') {
+      return this.playSample(pitch, duration, startTime, stopTime, config, options, voiceOutput)
+    }
+
+    const gainNode = this.context.createGain()
+    let sources: AudioScheduledSourceNode[]
+    let frequencyParam: AudioParam
+    let detuneParam: AudioParam
+    let dutyGates: DutyGate[] | undefined
+
+    // A duty macro steps pulse voices through duty cycles, then PWM sweeps a pulse wave's width;
+    // a duty command overrides both. Console channels step PWM through the chip's duties each frame
+    const pulsed = hardware ? kind === 'pulse' : waveform === 'pulse' || waveform === 'square'
+    const macroDuties = config.macros && pulsed && effect?.type !== 'duty'
+      ? ChipMacros.dutySteps(config.macros, duration, stopTime - startTime)
+      : null
+    const pwm = effects.pwm && pulsed && waveform === 'pulse' && effect?.type !== 'duty' && !macroDuties
+    const dutySteps = macroDuties
+      ?? (pwm && hardware ? this.pwmDutySteps(hardware.profile, pulseWidth, config, stopTime - startTime) : null)
+
+    if (dutySteps) {
+      const rate = macroDuties ? config.macros!.rate : hardware!.profile.driverRate
+      const tone = this.createDutyTone(dutySteps, rate, startTime, gainNode, hardware?.profile)
+      sources = tone.sources
+      frequencyParam = tone.frequency
+      detuneParam = tone.detune
+      if (macroDuties) dutyGates = tone.gates
+    } else if (pwm) {
+      const tone = this.createPwmTone(pulseWidth, config, startTime, gainNode)
+      sources = tone.sources
+      frequencyParam = tone.frequency
+      detuneParam = tone.detune
+    } else {
+      const osc = this.context.createOscillator()
+
+      // Set waveform (a duty command turns square and pulse voices into that pulse width)
+      if (hardware && kind === 'pulse') {
+        osc.setPeriodicWave(this.getPulseWave(ConsoleChip.pulseDuty(hardware.profile, waveform, pulseWidth, effect)))
+      } else if (hardware) {
+        osc.setPeriodicWave(this.getSteppedWave(ConsoleChip.waveTable(hardware.channel, waveform, pulseWidth)))
+      } else if (effect?.type === 'duty' && (waveform === 'pulse' || waveform === 'square')) {
+        osc.setPeriodicWave(this.getPulseWave(DUTY_CYCLES[effect.param] ?? 0.5))
+      } else if (waveform === 'pulse') {
+        osc.setPeriodicWave(this.getPulseWave(pulseWidth))
+      } else {
+        osc.type = waveform as OscillatorType
+      }
+
+      osc.connect(gainNode)
+      sources = [osc]
+      frequencyParam = osc.frequency
+      detuneParam = osc.detune
+    }
+
+    // Glide from the previous note on this channel; pitch commands take over from instrument glide
+    const previousPitch = channel !== undefined ? this.lastPitches.get(channel) : undefined
+    if (channel !== undefined) {
+      this.lastPitches.set(channel, pitch)
+    }
+
+    if (effect?.type === 'portamento' && previousPitch !== undefined) {
+      ChipEffects.schedulePortamento(
+        frequencyParam,
+        tune(ChipSynth.midiToFrequency(previousPitch)),
+        frequency,
+        effect,
+        tempo,
+        startTime
+      )
+    } else if (effect?.type === 'slideUp' || effect?.type === 'slideDown') {
+      ChipEffects.scheduleSlide(frequencyParam, frequency, effect, tempo, startTime, startTime + duration)
+    } else if (effects.glide && previousPitch !== undefined && previousPitch !== pitch) {
+      ChipEffects.scheduleGlide(
+        frequencyParam,
+        tune(ChipSynth.midiToFrequency(previousPitch)),
+        frequency,
+        startTime,
+        effects.glideTime
+      )
+    } else {
+      frequencyParam.setValueAtTime(frequency, startTime)
+    }
+
+    detuneParam.setValueAtTime(detune, startTime)
+    this.applyEnvelope(gainNode, startTime, duration, config, hardware)
+
+    // Connect and schedule
+    gainNode.connect(voiceOutput)
+
+    for (const source of sources) {
+      source.start(startTime)
+      source.stop(stopTime)
+    }
+
+    const offset = this.scheduleDetuneEffects(detuneParam, detune, config, options, startTime, duration, stopTime)
+    if (offset) sources.push(offset)
+
+    return { sources, gainNode, startTime, dutyGates, pitchOffset: offset?.offset }
+  }
+
+  /**
+   * One pulse oscillator per duty cycle a macro uses, each heard only on its ticks
+   * Pitch reaches them all through two constant sources, whose offsets stand in for frequency and detune
+   */
+  private createDutyTone(
+    steps: number[],
+    rate: number,
+    startTime: number,
+    destination: AudioNode,
+    profile?: ConsoleProfile
+  ): { sources: AudioScheduledSourceNode[]; frequency: AudioParam; detune: AudioParam; gates: DutyGate[] } {
+    const frequency = this.context.createConstantSource()
+    const detune = this.context.createConstantSource()
+    const sources: AudioScheduledSourceNode[] = [frequency, detune]
+    const gates: DutyGate[] = []
+
+    for (const duty of new Set(steps)) {
+      const width = DUTY_CYCLES[duty]
+      const osc = this.context.createOscillator()
+      osc.setPeriodicWave(this.getPulseWave(profile ? ConsoleChip.snapDuty(profile, width) : width))
+      osc.frequency.value = 0
+      osc.detune.value = 0
+      frequency.connect(osc.frequency)
+      detune.connect(osc.detune)
+
+      const gate = this.context.createGain()
+      gate.gain.value = 0
+      ChipMacros.scheduleTicks(gate.gain, steps.map(step => (step === duty ? 1 : 0)), rate, startTime)
+
+      osc.connect(gate)
+      gate.connect(destination)
+      sources.push(osc)
+      gates.push({ duty, gain: gate.gain })
+    }
+
+    return { sources, frequency: frequency.offset, detune: detune.offset, gates }
+  }
+
+  /**
+   * Pulse wave with a sine LFO sweeping its width: a sawtooth compared against a moving threshold
+   * The threshold is also subtracted from the output, which cancels the pulse's shifting DC offset
+   */
+  private createPwmTone(
+    pulseWidth: number,
+    config: InstrumentConfig,
+    startTime: number,
+    destination: AudioNode
+  ): { sources: AudioScheduledSourceNode[]; frequency: AudioParam; detune: AudioParam } {
+    const { effects } = config
+    const saw = this.context.createOscillator()
+    const threshold = this.context.createConstantSource()
+    const lfo = this.context.createOscillator()
+    const depth = this.context.createGain()
+    const comparator = this.context.createWaveShaper()
+    const dcBlock = this.context.createGain()
+
+    saw.type = 'sawtooth'
+    // The saw spends (1 + offset) / 2 of each cycle above -offset
+    threshold.offset.setValueAtTime(2 * pulseWidth - 1, startTime)
+    lfo.type = 'sine'
+    lfo.frequency.setValueAtTime(effects.pwmSpeed, startTime)
+    depth.gain.setValueAtTime(2 * ChipEffects.pwmSwing(pulseWidth, effects), startTime)
+    comparator.curve = this.getPwmCurve()
+    comparator.oversample = '4x'
+    dcBlock.gain.value = -1
+
+    lfo.connect(depth)
+    depth.connect(threshold.offset)
+    saw.connect(comparator)
+    threshold.connect(comparator)
+    threshold.connect(dcBlock)
+    comparator.connect(destination)
+    dcBlock.connect(destination)
+
+    return { sources: [saw, threshold, lfo], frequency: saw.frequency, detune: saw.detune }
+  }
+
+  /**
+   * Step function for the PWM comparator: -1 below zero, 1 from zero up
+   */
+  private getPwmCurve(): Float32Array {
+    if (!this.pwmCurve) {
+      const size = 4096
+      this.pwmCurve = new Float32Array(size)
+      for (let i = 0; i < size; i++) {
+        this.pwmCurve[i] = i < size / 2 ? -1 : 1
+      }
+    }
+    return this.pwmCurve
+  }
+
+  /**
+   * Chip duty (index into DUTY_CYCLES) closest to the PWM-swept width on every sound driver frame,
+   * as the exported driver steps it
+   */
+  private pwmDutySteps(profile: ConsoleProfile, pulseWidth: number, config: InstrumentConfig, length: number): number[] {
+    const rate = profile.driverRate
+    return Array.from({ length: Math.max(1, Math.ceil(length * rate)) }, (_, frame) =>
+      DUTY_CYCLES.indexOf(ConsoleChip.snapDuty(profile, ChipEffects.pwmWidth(pulseWidth, config.effects, frame / rate)))
+    )
+  }
+
+  /**
+   * Volume over a note: the volume macro when the instrument has one, otherwise the ADSR
+   * (stepped to the levels a console channel has); `from` reschedules only what follows a held note's release
+   */
+  private applyEnvelope(
+    gainNode: GainNode,
+    startTime: number,
+    duration: number,
+    config: InstrumentConfig,
+    hardware?: HardwareVoice,
+    from = startTime
+  ): void {
+    const { adsr, macros } = config
+    const peak = hardware ? ConsoleChip.quantizeVolume(hardware.profile, config.gain) : config.gain
+
+    if (macros?.volume) {
+      const levels = ChipMacros.volumeLevels(macros, duration, ChipMacros.releaseTime(config))
+        .map(level => (hardware ? ConsoleChip.channelLevel(hardware, peak * level) : peak * level))
+      ChipMacros.scheduleTicks(gainNode.gain, levels, macros.rate, startTime, from)
+    } else if (hardware) {
+      ConsoleChip.scheduleEnvelope(gainNode.gain, hardware, startTime, duration, adsr, peak, from)
+    } else {
+      this.applyADSR(gainNode, startTime, duration, adsr, peak)
+    }
+  }
+
+  /**
+   * Make a voice the only one sounding on a console channel
+   * Voices may arrive out of order (the renderer schedules one track at a time), so each one
+   * sounds until the next voice on the channel starts, whenever either was scheduled
+   */
+  private claimChannel(channelId: string, voice: Voice): void {
+    const voices = this.channelVoices.get(channelId) ?? []
+
+    // Voices that have been cut and are over need no more tracking
+    while (voices.length > 1 && voices[1].startTime <= this.context.currentTime) {
+      voices.shift()
+    }
+
+    // After every voice starting at the same time or earlier, so the latest scheduled wins a tie
+    let index = voices.findIndex(v => v.startTime > voice.startTime)
+    if (index < 0) index = voices.length
+    voices.splice(index, 0, voice)
+
+    const previous = voices[index - 1]
+    const next = voices[index + 1]
+    if (previous) {
+      this.silence(previous, voice.startTime)
+    }
+    if (next) {
+      this.silence(voice, next.startTime)
+    }
+    this.channelVoices.set(channelId, voices)
+  }
+
+  private silence(voice: Voice, time: number): void {
+    const gain = voice.gainNode.gain
+    gain.cancelScheduledValues(time)
+    gain.setValueAtTime(0, time)
+  }
+
+  /**
+   * PeriodicWave for a stepped triangle or wave channel table, created once per table
+   */
+  private getSteppedWave(table: number[]): PeriodicWave {
+    const key = table.join(',')
+    const cached = this.steppedWaves.get(key)
+    if (cached) return cached
+
+    const { real, imag } = ConsoleChip.waveCoefficients(table)
+    const wave = this.context.createPeriodicWave(real, imag, { disableNormalization: true })
+    this.steppedWaves.set(key, wave)
+    return wave
+  }
+
+  /**
+   * Arpeggio, vibrato and the arpeggio / pitch macros, which move a voice's detune in cents
+   * Returns the source playing the macros' offset, so a held note can reschedule and stop it
+   */
+  private scheduleDetuneEffects(
+    detuneParam: AudioParam,
+    baseDetune: number,
+    config: InstrumentConfig,
+    options: NoteOptions,
+    startTime: number,
+    duration: number,
+    stopTime: number
+  ): ConstantSourceNode | undefined {
+    const { effects, macros } = config
+    const { tempo = 120, effect } = options
+
+    // A note's own arpeggio command replaces the instrument arpeggio, stepping every tick;
+    // an arpeggio macro replaces the arpeggio effect
+    if (effect?.type === 'arpeggio') {
+      const chord = { ...effects, arpeggioPattern: [0, effect.param >> 4, effect.param & 0xF], arpeggioSpeed: TICKS_PER_STEP * 4 }
+      ChipEffects.scheduleArpeggio(detuneParam, baseDetune, chord, tempo, startTime, stopTime)
+    } else if (effects.arpeggio && !macros?.arpeggio) {
+      ChipEffects.scheduleArpeggio(detuneParam, baseDetune, effects, tempo, startTime, stopTime)
+    }
+
+    if (effects.vibrato) {
+      ChipEffects.createVibrato(this.context, detuneParam, effects, startTime, stopTime)
+    }
+
+    const offsets = macros && ChipMacros.pitchOffsets(macros, duration, stopTime - startTime, effect?.type !== 'arpeggio')
+    if (!offsets) return undefined
+
+    // Added on top of everything else, like the vibrato LFO
+    const offset = this.context.createConstantSource()
+    offset.offset.value = 0
+    ChipMacros.scheduleTicks(offset.offset, offsets.map(semitones => semitones * 100), macros.rate, startTime)
+    offset.connect(detuneParam)
+    offset.start(startTime)
+    offset.stop(stopTime)
+    return offset
+  }
+
+  /**
+   * Play an imported sample transposed from its root note
+   * Pitch moves through detune, so arpeggio and vibrato apply but slides and glide do not
+   * A sample that is not loaded plays silence
+   */
+  private playSample(
+    pitch: number,
+    duration: number,
+    startTime: number,
+    stopTime: number,
+    config: InstrumentConfig,
+    options: NoteOptions,
+    destination: AudioNode
+  ): Voice {
+    const sample = SampleBank.get(config.sampleId)
+    const source = this.context.createBufferSource()
+    const gainNode = this.context.createGain()
+    const sources: AudioScheduledSourceNode[] = [source]
+    let pitchOffset: AudioParam | undefined
+
+    if (sample) {
+      source.buffer = this.getSampleBuffer(sample.id)
+      const cents = (pitch - sample.rootPitch) * 100 + config.detune
+      source.detune.setValueAtTime(cents, startTime)
+      const offset = this.scheduleDetuneEffects(source.detune, cents, config, options, startTime, duration, stopTime)
+      if (offset) sources.push(offset)
+      pitchOffset = offset?.offset
+    }
+
+    this.applyEnvelope(gainNode, startTime, duration, config)
+
+    source.connect(gainNode)
+    gainNode.connect(destination)
+
+    source.start(startTime)
+    source.stop(stopTime)
+
+    return { sources, gainNode, startTime, pitchOffset }
+  }
+
+  /**
+   * AudioBuffer for a loaded sample on this synth's context, created once
+   */
+  private getSampleBuffer(sampleId: string): AudioBuffer | null {
+    // Deleted samples stop sounding even if their buffer was made
+    const sample = SampleBank.get(sampleId)
+    if (!sample || sample.data.length === 0) return null
+
+    const cached = this.sampleBuffers.get(sampleId)
+    if (cached) return cached
+
+    const buffer = this.context.createBuffer(1, sample.data.length, sample.sampleRate)
+    buffer.getChannelData(0).set(sample.data)
+    this.sampleBuffers.set(sampleId, buffer)
+    return buffer
+  }
+
+  /**
+   * Forget glide state (e.g. when playback stops)
+   */
+  resetVoices(): void {
+    this.lastPitches.clear()
+    this.channelVoices.clear()
+  }
+
+  /**
+   * Get the node a voice should connect to, inserting a bitcrusher if enabled
+   */
+  private createOutput(config: InstrumentConfig, stopTime: number): AudioNode {
+    if (!config.effects.bitcrush) return this.destination
+
+    const crusher = ChipEffects.createBitcrusher(this.context, config.effects, stopTime)
+    if (!crusher) return this.destination
+
+    crusher.connect(this.destination)
+    return crusher
+  }
+
+  /**
+   * Apply ADSR envelope to a gain node
+   */
+  private applyADSR(
+    gainNode: GainNode,
+    startTime: number,
+    duration: number,
+    adsr: ADSRParams,
+    maxGain: number
+  ): void {
+    const { attack, decay, sustain, release } = adsr
+    const peakGain = maxGain
+    const sustainGain = maxGain * sustain
+
+    const attackEnd = startTime + attack
+    const decayEnd = attackEnd + decay
+    const releaseStart = startTime + Math.max(duration - release, attack + decay)
+    const releaseEnd = releaseStart + release
+
+    gainNode.gain.setValueAtTime(0, startTime)
+    gainNode.gain.linearRampToValueAtTime(peakGain, attackEnd)
+    gainNode.gain.linearRampToValueAtTime(sustainGain, decayEnd)
+    gainNode.gain.setValueAtTime(sustainGain, releaseStart)
+    gainNode.gain.linearRampToValueAtTime(0, releaseEnd)
+  }
+
+  /**
+   * Play a noise burst (for drums)
+   */
+  private playNoise(
+    duration: number,
+    startTime: number,
+    config: InstrumentConfig,
+    destination: AudioNode = this.destination
+  ): Voice {
+    const release = ChipMacros.releaseTime(config)
+    const source = this.context.createBufferSource()
+    source.buffer = this.createNoiseBuffer(duration + release + 0.1)
+
+    const gainNode = this.context.createGain()
+    this.applyEnvelope(gainNode, startTime, duration, config)
+
+    source.connect(gainNode)
+    gainNode.connect(destination)
+
+    source.start(startTime)
+    source.stop(startTime + duration + release + 0.05)
+
+    return { sources: [source], gainNode, startTime }
+  }
+
+  /**
+   * Play a console noise channel: looped LFSR noise with a stepped envelope
+   */
+  private playLfsrNoise(
+    hardware: HardwareVoice,
+    rate: number,
+    short: boolean,
+    duration: number,
+    startTime: number,
+    config: InstrumentConfig,
+    destination: AudioNode
+  ): Voice {
+    const source = this.context.createBufferSource()
+    source.buffer = this.getLfsrBuffer(hardware.profile, rate, short)
+    source.loop = true
+
+    const gainNode = this.context.createGain()
+    this.applyEnvelope(gainNode, startTime, duration, config, hardware)
+
+    source.connect(gainNode)
+    gainNode.connect(destination)
+
+    source.start(startTime)
+    source.stop(startTime + duration + ChipMacros.releaseTime(config) + 0.05)
+
+    return { sources: [source], gainNode, startTime }
+  }
+
+  /**
+   * Buffer of LFSR noise at one clock rate, created once
+   */
+  private getLfsrBuffer(profile: ConsoleProfile, rate: number, short: boolean): AudioBuffer {
+    const key = `${profile.id}:${rate}:${short}`
+    const cached = this.lfsrBuffers.get(key)
+    if (cached) return cached
+
+    const data = ConsoleChip.createNoise(profile, rate, short, this.context.sampleRate)
+    const buffer = this.context.createBuffer(1, data.length, this.context.sampleRate)
+    buffer.getChannelData(0).set(data)
+    this.lfsrBuffers.set(key, buffer)
+    return buffer
+  }
+
+  /**
+   * Create a mono buffer of white noise
+   */
+  private createNoiseBuffer(seconds: number): AudioBuffer {
+    const length = Math.max(1, Math.floor(this.context.sampleRate * seconds))
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate)
+    const data = buffer.getChannelData(0)
+
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+
+    return buffer
+  }
+
+  /**
+   * Play a drum pad: every layer is a noise burst or swept tone through an optional filter
+   * On a console channel the layers are rebuilt from what that channel can play
+   */
+  playDrum(pad: DrumPad, startTime: number, gain: number, hardware?: HardwareVoice): void {
+    if (!hardware) {
+      for (const layer of pad.layers) {
+        this.playDrumLayer(layer, startTime + layer.delay, gain * layer.level)
+      }
+      return
+    }
+
+    // One gain stage per hit, so the next note on the channel can cut the whole pad
+    const hit = this.context.createGain()
+    hit.connect(this.destination)
+
+    let first: AudioScheduledSourceNode | undefined
+    for (const layer of pad.layers) {
+      const source = this.playHardwareDrumLayer(layer, startTime + layer.delay, gain * layer.level, hardware, hit)
+      first ??= source
+    }
+
+    if (first) {
+      this.claimChannel(hardware.channel.id, { sources: [first], gainNode: hit, startTime })
+    }
+  }
+
+  /**
+   * One drum layer as a console channel plays it
+   * Returns undefined when the channel cannot play the layer
+   */
+  private playHardwareDrumLayer(
+    layer: DrumLayer,
+    startTime: number,
+    gain: number,
+    hardware: HardwareVoice,
+    destination: AudioNode
+  ): AudioScheduledSourceNode | undefined {
+    const { profile, channel } = hardware
+    const decay = Math.max(0.005, layer.decay)
+    let source: AudioBufferSourceNode | OscillatorNode
+
+    if (!ConsoleChip.playsLayer(channel, layer)) return undefined
+
+    if (channel.kind === 'dpcm') {
+      // DPCM has no volume control: samples play at full level to the end
+      const sample = this.context.createBufferSource()
+      sample.buffer = this.getSampleBuffer(layer.sampleId!)
+      sample.connect(destination)
+      sample.start(startTime)
+      return sample
+    }
+
+    if (channel.kind === 'noise') {
+      const { rate, short } = ConsoleChip.drumNoise(profile, layer)
+      const noise = this.context.createBufferSource()
+      noise.buffer = this.getLfsrBuffer(profile, rate, short)
+      noise.loop = true
+      source = noise
+    } else {
+      const osc = this.context.createOscillator()
+      if (channel.kind === 'pulse') {
+        osc.setPeriodicWave(this.getPulseWave(0.5))
+      } else {
+        osc.setPeriodicWave(this.getSteppedWave(ConsoleChip.waveTable(channel, layer.source, 0.5)))
+      }
+      osc.frequency.setValueAtTime(ConsoleChip.quantizeFrequency(hardware, layer.pitch), startTime)
+      if (layer.sweep > 0 && layer.pitchEnd !== layer.pitch) {
+        osc.frequency.exponentialRampToValueAtTime(
+          Math.max(1, ConsoleChip.quantizeFrequency(hardware, layer.pitchEnd)),
+          startTime + layer.sweep
+        )
+      }
+      source = osc
+    }
+
+    const gainNode = this.context.createGain()
+    ConsoleChip.scheduleEnvelope(
+      gainNode.gain,
+      hardware,
+      startTime,
+      decay,
+      { attack: 0, decay, sustain: 0, release: 0 },
+      gain
+    )
+
+    source.connect(gainNode)
+    gainNode.connect(destination)
+
+    source.start(startTime)
+    source.stop(startTime + decay + 0.05)
+    return source
+  }
+
+  private playDrumLayer(layer: DrumLayer, startTime: number, gain: number): void {
+    const decay = Math.max(0.005, layer.decay)
+    let source: AudioScheduledSourceNode
+
+    if (layer.source === 'noise') {
+      const noise = this.context.createBufferSource()
+      noise.buffer = this.createNoiseBuffer(decay)
+      source = noise
+    } else if (layer.source === 'sample') {
+      const sample = this.context.createBufferSource()
+      sample.buffer = layer.sampleId ? this.getSampleBuffer(layer.sampleId) : null
+      source = sample
+    } else {
+      const osc = this.context.createOscillator()
+      osc.type = layer.source
+      osc.frequency.setValueAtTime(layer.pitch, startTime)
+      if (layer.sweep > 0 && layer.pitchEnd !== layer.pitch) {
+        osc.frequency.exponentialRampToValueAtTime(Math.max(1, layer.pitchEnd), startTime + layer.sweep)
+      }
+      source = osc
+    }
+
+    const gainNode = this.context.createGain()
+    gainNode.gain.setValueAtTime(Math.max(0.001, gain), startTime)
+    gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + decay)
+
+    if (layer.filter === 'none') {
+      source.connect(gainNode)
+    } else {
+      const filter = this.context.createBiquadFilter()
+      filter.type = layer.filter
+      filter.frequency.setValueAtTime(layer.filterFreq, startTime)
+      filter.Q.setValueAtTime(layer.filterQ, startTime)
+      source.connect(filter)
+      filter.connect(gainNode)
+    }
+    gainNode.connect(this.destination)
+
+    source.start(startTime)
+    source.stop(startTime + decay + 0.05)
+  }
+}
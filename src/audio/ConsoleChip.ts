@@ -0,0 +1,346 @@
+import type { ADSRParams, WaveformType } from '@/types/instrument'
+import type { ConsoleChannel, ConsoleProfile, HardwareVoice } from '@/types/console'
+import type { Track } from '@/types/project'
+import type { NoteEffect } from '@/types/note'
+import type { DrumLayer, DrumLayerSource } from '@/types/drumKit'
+import { DUTY_CYCLES } from '@/data/noteEffects'
+
+// Period registers are 11 bits wide on both chips
+const MAX_PERIOD = 2048
+
+// Triangle and wave channels step through 32 four-bit samples per cycle
+const WAVE_STEPS = 32
+const WAVE_HARMONICS = 256
+
+/**
+ * A voice limit broken by the project, with the edited pattern's steps it affects
+ */
+export interface VoiceWarning {
+  trackId: string
+  message: string
+  beats: number[]
+}
+
+/**
+ * Hardware limits of the console profiles: pitch tables, volume steps,
+ * wave tables, LFSR noise and the channel each track plays on
+ */
+export class ConsoleChip {
+  /**
+   * Channel a track plays on, or undefined when it has none (and stays silent)
+   */
+  static getVoice(profile: ConsoleProfile, track: Pick<Track, 'channel'>): HardwareVoice | undefined {
+    const channel = profile.channels.find(c => c.id === track.channel)
+    return channel ? { profile, channel } : undefined
+  }
+
+  /**
+   * Give tracks without a valid channel the first free one that suits them:
+   * drums take the noise channel, synths the pulse channels then triangle or wave
+   */
+  static assignChannels(tracks: Track[], profile: ConsoleProfile): Record<string, string | undefined> {
+    const assigned: Record<string, string | undefined> = {}
+    const taken = new Set<string>()
+
+    for (const track of tracks) {
+      if (profile.channels.some(c => c.id === track.channel) && !taken.has(track.channel!)) {
+        assigned[track.id] = track.channel
+        taken.add(track.channel!)
+      }
+    }
+
+    for (const track of tracks) {
+      if (track.id in assigned) continue
+      const kinds = track.type === 'drums' ? ['noise'] : ['pulse', 'triangle', 'wave']
+      const channel = profile.channels.find(c => kinds.includes(c.kind) && !taken.has(c.id))
+      assigned[track.id] = channel?.id
+      if (channel) taken.add(channel.id)
+    }
+
+    return assigned
+  }
+
+  /**
+   * Period (in clock / divider units) nearest a frequency, before it is held to the channel's range
+   */
+  static rawPeriod(voice: HardwareVoice, frequency: number): number {
+    const { profile, channel } = voice
+    return Math.round(profile.clock / (channel.divider ?? 1) / Math.max(1, frequency))
+  }
+
+  /**
+   * Period the channel plays for a frequency, held to the register's range
+   */
+  static periodFor(voice: HardwareVoice, frequency: number): number {
+    return Math.max(voice.channel.minPeriod ?? 1, Math.min(MAX_PERIOD, this.rawPeriod(voice, frequency)))
+  }
+
+  /**
+   * Whether the channel's period register can reach a frequency
+   */
+  static inRange(voice: HardwareVoice, frequency: number): boolean {
+    return this.rawPeriod(voice, frequency) === this.periodFor(voice, frequency)
+  }
+
+  /**
+   * Nearest frequency the channel's period register can produce
+   */
+  static quantizeFrequency(voice: HardwareVoice, frequency: number): number {
+    const { profile, channel } = voice
+    if (!channel.divider) return frequency
+
+    return profile.clock / channel.divider / this.periodFor(voice, frequency)
+  }
+
+  /**
+   * Volume register value (0 is silent) closest to a gain
+   */
+  static volumeStep(profile: ConsoleProfile, gain: number): number {
+    return Math.round(Math.max(0, Math.min(1, gain)) * (profile.volumeSteps - 1))
+  }
+
+  /**
+   * Closest volume step (0 to 1)
+   */
+  static quantizeVolume(profile: ConsoleProfile, gain: number): number {
+    return this.volumeStep(profile, gain) / (profile.volumeSteps - 1)
+  }
+
+  /**
+   * Level (0 to 1) a channel actually outputs for a gain: the NES triangle is only on or off,
+   * the Game Boy wave channel has four output levels (silent, 25%, 50%, 100%), the rest 4-bit steps
+   */
+  static channelLevel(voice: HardwareVoice, gain: number): number {
+    const step = this.volumeStep(voice.profile, gain)
+    const level = step / (voice.profile.volumeSteps - 1)
+
+    switch (voice.channel.kind) {
+      case 'triangle':
+        return step > 0 ? 1 : 0
+      case 'wave':
+        if (step === 0) return 0
+        if (level >= 0.75) return 1
+        if (level >= 0.375) return 0.5
+        return 0.25
+      default:
+        return level
+    }
+  }
+
+  /**
+   * Pulse width a pulse channel plays: a duty command wins, then the instrument's pulse width
+   */
+  static pulseDuty(profile: ConsoleProfile, waveform: WaveformType, pulseWidth: number, effect?: NoteEffect): number {
+    const duty = effect?.type === 'duty' ? DUTY_CYCLES[effect.param] ?? 0.5 : waveform === 'pulse' ? pulseWidth : 0.5
+    return this.snapDuty(profile, duty)
+  }
+
+  /**
+   * Closest duty cycle the pulse channels have
+   */
+  static snapDuty(profile: ConsoleProfile, duty: number): number {
+    return profile.dutyCycles.reduce((best, d) => (Math.abs(d - duty) < Math.abs(best - duty) ? d : best))
+  }
+
+  /**
+   * Noise clock rate closest (in pitch) to a frequency
+   */
+  static noiseRate(profile: ConsoleProfile, frequency: number): number {
+    const target = Math.log2(Math.max(1, frequency))
+    return profile.noiseRates.reduce((best, rate) =>
+      Math.abs(Math.log2(rate) - target) < Math.abs(Math.log2(best) - target) ? rate : best
+    )
+  }
+
+  /**
+   * Noise rate for a note on the noise channel: higher notes clock the LFSR faster
+   */
+  static noiseRateForPitch(profile: ConsoleProfile, pitch: number): number {
+    const rates = profile.noiseRates
+    return rates[Math.max(0, Math.min(rates.length - 1, rates.length - 1 - (pitch % rates.length)))]
+  }
+
+  /**
+   * Noise a drum layer becomes on the noise channel: tones turn into short-mode noise
+   * near their pitch, noise bursts into long-mode noise about as bright as their filter
+   */
+  static drumNoise(profile: ConsoleProfile, layer: DrumLayer): { rate: number; short: boolean } {
+    if (layer.source !== 'noise') {
+      return { rate: this.noiseRate(profile, layer.pitch * profile.shortNoiseSteps), short: true }
+    }
+    const brightness = layer.filter === 'none' ? 4000 : layer.filterFreq
+    return { rate: this.noiseRate(profile, brightness * 8), short: false }
+  }
+
+  /**
+   * Whether a channel can play a drum layer: DPCM plays samples only,
+   * the noise channel anything but samples, tone channels only tones
+   */
+  static playsLayer(channel: ConsoleChannel, layer: DrumLayer): boolean {
+    if (channel.kind === 'dpcm') return layer.source === 'sample' && !!layer.sampleId
+    if (layer.source === 'sample') return false
+    return channel.kind === 'noise' || layer.source !== 'noise'
+  }
+
+  /**
+   * One second of LFSR noise clocked at a rate; short mode repeats quickly and sounds metallic
+   * The NES taps bit 6 in short mode, the Game Boy shortens the register to 7 bits
+   */
+  static createNoise(profile: ConsoleProfile, rate: number, short: boolean, sampleRate: number): Float32Array {
+    const data = new Float32Array(sampleRate)
+    const stepsPerSample = rate / sampleRate
+    let lfsr = 1
+    let phase = 0
+
+    for (let i = 0; i < data.length; i++) {
+      phase += stepsPerSample
+      while (phase >= 1) {
+        phase -= 1
+        if (profile.id === 'gameboy') {
+          const feedback = (lfsr ^ (lfsr >> 1)) & 1
+          lfsr = (lfsr >> 1) | (feedback << 14)
+          if (short) lfsr = (lfsr & ~0x40) | (feedback << 6)
+        } else {
+          const feedback = (lfsr ^ (lfsr >> (short ? 6 : 1))) & 1
+          lfsr = (lfsr >> 1) | (feedback << 14)
+        }
+      }
+      data[i] = lfsr & 1 ? -1 : 1
+    }
+
+    return data
+  }
+
+  /**
+   * 32-step, 4-bit wave a triangle or wave channel plays
+   * The Game Boy wave channel approximates the instrument's (or drum layer's) waveform
+   */
+  static waveTable(channel: ConsoleChannel, waveform: WaveformType | DrumLayerSource, pulseWidth: number): number[] {
+    const triangle = Array.from({ length: WAVE_STEPS }, (_, i) => (i < 16 ? 15 - i : i - 16))
+    if (channel.kind !== 'wave') return triangle
+
+    switch (waveform) {
+      case 'square':
+        return Array.from({ length: WAVE_STEPS }, (_, i) => (i < 16 ? 15 : 0))
+      case 'pulse':
+        return Array.from({ length: WAVE_STEPS }, (_, i) => (i < Math.round(pulseWidth * WAVE_STEPS) ? 15 : 0))
+      case 'sawtooth':
+        return Array.from({ length: WAVE_STEPS }, (_, i) => Math.floor(i / 2))
+      default:
+        return triangle
+    }
+  }
+
+  /**
+   * Fourier coefficients of a stepped wave table, for createPeriodicWave
+   */
+  static waveCoefficients(table: number[]): { real: Float32Array; imag: Float32Array } {
+    const real = new Float32Array(WAVE_HARMONICS)
+    const imag = new Float32Array(WAVE_HARMONICS)
+    const mean = table.reduce((sum, v) => sum + v, 0) / table.length
+
+    for (let n = 1; n < WAVE_HARMONICS; n++) {
+      for (let k = 0; k < table.length; k++) {
+        const value = (table[k] - mean) / 7.5
+        const from = (2 * Math.PI * n * k) / table.length
+        const to = (2 * Math.PI * n * (k + 1)) / table.length
+        real[n] += (value * (Math.sin(to) - Math.sin(from))) / (Math.PI * n)
+        imag[n] += (value * (Math.cos(from) - Math.cos(to))) / (Math.PI * n)
+      }
+    }
+
+    return { real, imag }
+  }
+
+  /**
+   * Seconds from note start until an ADSR envelope is silent
+   */
+  static envelopeLength(adsr: ADSRParams, duration: number): number {
+    return Math.max(duration - adsr.release, adsr.attack + adsr.decay) + adsr.release
+  }
+
+  /**
+   * ADSR level (0 to 1) a note of some duration has t seconds after it starts
+   */
+  static envelopeLevel(adsr: ADSRParams, duration: number, t: number): number {
+    const { attack, decay, sustain, release } = adsr
+    const releaseStart = Math.max(duration - release, attack + decay)
+
+    if (t < attack) return t / attack
+    if (t < attack + decay) return 1 - (1 - sustain) * ((t - attack) / Math.max(0.001, decay))
+    if (t < releaseStart) return sustain
+    return sustain * Math.max(0, 1 - (t - releaseStart) / Math.max(0.001, release))
+  }
+
+  /**
+   * ADSR stepped at the chip's envelope rate, every level one the channel can output
+   * `from` reschedules only the steps after it (a held note's release)
+   */
+  static scheduleEnvelope(
+    gain: AudioParam,
+    voice: HardwareVoice,
+    startTime: number,
+    duration: number,
+    adsr: ADSRParams,
+    peak: number,
+    from = startTime
+  ): void {
+    const end = this.envelopeLength(adsr, duration)
+
+    const frame = 1 / voice.profile.frameRate
+    for (let t = 0; t < end; t += frame) {
+      if (startTime + t < from) continue
+      gain.setValueAtTime(this.channelLevel(voice, peak * this.envelopeLevel(adsr, duration, t)), startTime + t)
+    }
+    gain.setValueAtTime(0, startTime + end)
+  }
+
+  /**
+   * Where the project asks for more than the hardware has: tracks without a
+   * channel, channels shared by two tracks, and more than one note at a time
+   */
+  static checkVoices(tracks: Track[], profile: ConsoleProfile): VoiceWarning[] {
+    const warnings: VoiceWarning[] = []
+    const owners = new Map<string, Track>()
+
+    for (const track of tracks) {
+      const voice = this.getVoice(profile, track)
+      if (!voice) {
+        warnings.push({ trackId: track.id, message: `${track.name} has no ${profile.name} channel and is silent`, beats: [] })
+        continue
+      }
+
+      const owner = owners.get(voice.channel.id)
+      if (owner) {
+        warnings.push({
+          trackId: track.id,
+          message: `${owner.name} and ${track.name} share ${voice.channel.name}; their notes cut each other`,
+          beats: [],
+        })
+      } else {
+        owners.set(voice.channel.id, track)
+      }
+
+      // Drum hits are one-shots, so only hits on the same step collide
+      const counts = new Map<number, number>()
+      for (const note of track.notes) {
+        const length = track.type === 'drums' ? 1 : note.duration
+        for (let beat = note.startBeat; beat < note.startBeat + length; beat++) {
+          counts.set(beat, (counts.get(beat) ?? 0) + 1)
+        }
+      }
+
+      const crowded = [...counts].filter(([, count]) => count > 1)
+      if (crowded.length > 0) {
+        const most = Math.max(...crowded.map(([, count]) => count))
+        warnings.push({
+          trackId: track.id,
+          message: `${track.name} plays up to ${most} notes at once; ${voice.channel.name} has one voice`,
+          beats: crowded.map(([beat]) => beat).sort((a, b) => a - b),
+        })
+      }
+    }
+
+    return warnings
+  }
+}
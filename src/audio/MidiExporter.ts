@@ -0,0 +1,166 @@
+import type { Project } from '@/types/project'
+
+// Ticks per quarter note; one 16th-note grid step is a quarter of this
+export const MIDI_PPQ = 96
+export const MIDI_TICKS_PER_16TH = MIDI_PPQ / 4
+
+// General MIDI percussion channel (channel 10, zero-based)
+export const MIDI_DRUM_CHANNEL = 9
+
+interface MidiEvent {
+  tick: number
+  order: number    // Tie-breaker for events on the same tick (note-offs first)
+  data: number[]
+}
+
+/**
+ * Standard MIDI File (type 1) exporter
+ */
+export class MidiExporter {
+  /**
+   * Convert a project to a .mid blob
+   * Track 0 carries tempo/time signature, then one MIDI track per project track
+   */
+  static exportToMidi(project: Project): Blob {
+    const chunks: Uint8Array[] = [
+      this.createHeader(project.tracks.length + 1),
+      this.createConductorTrack(project),
+    ]
+
+    let nextSynthChannel = 0
+    for (const track of project.tracks) {
+      let channel: number
+      if (track.type === 'drums') {
+        channel = MIDI_DRUM_CHANNEL
+      } else {
+        channel = nextSynthChannel
+        nextSynthChannel++
+        if (nextSynthChannel === MIDI_DRUM_CHANNEL) nextSynthChannel++
+        if (nextSynthChannel > 15) nextSynthChannel = 0
+      }
+
+      const events: MidiEvent[] = [
+        { tick: 0, order: 0, data: this.metaText(0x03, track.name) },
+        // Channel volume (CC 7) from track volume
+        { tick: 0, order: 1, data: [0xB0 | channel, 7, this.toMidiValue(track.volume)] },
+      ]
+
+      for (const note of track.notes) {
+        const startTick = note.startBeat * MIDI_TICKS_PER_16TH
+        const endTick = (note.startBeat + note.duration) * MIDI_TICKS_PER_16TH
+        const pitch = Math.max(0, Math.min(127, note.pitch))
+        const velocity = Math.max(1, this.toMidiValue(note.velocity))
+
+        events.push({ tick: startTick, order: 3, data: [0x90 | channel, pitch, velocity] })
+        events.push({ tick: endTick, order: 2, data: [0x80 | channel, pitch, 0] })
+      }
+
+      chunks.push(this.createTrackChunk(events))
+    }
+
+    return new Blob(chunks, { type: 'audio/midi' })
+  }
+
+  /**
+   * MThd chunk: format 1, track count, ticks per quarter note
+   */
+  private static createHeader(trackCount: number): Uint8Array {
+    const bytes = new Uint8Array(14)
+    const view = new DataView(bytes.buffer)
+
+    this.writeString(bytes, 0, 'MThd')
+    view.setUint32(4, 6)
+    view.setUint16(8, 1)
+    view.setUint16(10, trackCount)
+    view.setUint16(12, MIDI_PPQ)
+
+    return bytes
+  }
+
+  /**
+   * Tempo map track with song name, tempo and time signature meta events
+   */
+  private static createConductorTrack(project: Project): Uint8Array {
+    const microsecondsPerQuarter = Math.round(60000000 / project.tempo)
+    const { numerator, denominator } = project.timeSignature
+
+    return this.createTrackChunk([
+      { tick: 0, order: 0, data: this.metaText(0x03, project.name) },
+      {
+        tick: 0,
+        order: 1,
+        data: [
+          0xFF, 0x51, 0x03,
+          (microsecondsPerQuarter >> 16) & 0xFF,
+          (microsecondsPerQuarter >> 8) & 0xFF,
+          microsecondsPerQuarter & 0xFF,
+        ],
+      },
+      {
+        tick: 0,
+        order: 2,
+        // nn, dd (power of two), MIDI clocks per click (one counted beat), 32nds per quarter
+        data: [0xFF, 0x58, 0x04, numerator, Math.round(Math.log2(denominator)), Math.round(96 / denominator), 8],
+      },
+    ])
+  }
+
+  /**
+   * Build an MTrk chunk from absolute-tick events, appending End of Track
+   */
+  private static createTrackChunk(events: MidiEvent[]): Uint8Array {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order)
+    const body: number[] = []
+
+    let lastTick = 0
+    for (const event of sorted) {
+      body.push(...this.writeVarLength(event.tick - lastTick), ...event.data)
+      lastTick = event.tick
+    }
+    body.push(0x00, 0xFF, 0x2F, 0x00)
+
+    const bytes = new Uint8Array(8 + body.length)
+    this.writeString(bytes, 0, 'MTrk')
+    new DataView(bytes.buffer).setUint32(4, body.length)
+    bytes.set(body, 8)
+
+    return bytes
+  }
+
+  /**
+   * Meta event carrying text (e.g. 0x03 = track name)
+   */
+  private static metaText(type: number, text: string): number[] {
+    const encoded = Array.from(new TextEncoder().encode(text))
+    return [0xFF, type, ...this.writeVarLength(encoded.length), ...encoded]
+  }
+
+  /**
+   * Encode a number as a MIDI variable-length quantity
+   */
+  private static writeVarLength(value: number): number[] {
+    let remaining = Math.max(0, Math.round(value))
+    const bytes = [remaining & 0x7F]
+    remaining >>= 7
+
+    while (remaining > 0) {
+      bytes.unshift((remaining & 0x7F) | 0x80)
+      remaining >>= 7
+    }
+
+    return bytes
+  }
+
+  /**
+   * Map a 0-1 value to the 0-127 MIDI range
+   */
+  private static toMidiValue(value: number): number {
+    return Math.max(0, Math.min(127, Math.round(value * 127)))
+  }
+
+  private static writeString(bytes: Uint8Array, offset: number, string: string): void {
+    for (let i = 0; i < string.length; i++) {
+      bytes[offset + i] = string.charCodeAt(i)
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import type { Note } from '@/types/note'
+import type { TimeSignature } from '@/types/project'
+import { MIDI_DRUM_CHANNEL } from './MidiExporter'
+
+export interface MidiNote {
+  pitch: number
+  startTick: number
+  durationTicks: number
+  velocity: number   // 0-1
+}
+
+/**
+ * Notes from one MIDI track on one channel
+ * Type 0 files produce one source per channel, type 1 one per track/channel pair
+ */
+export interface MidiSource {
+  key: string
+  trackIndex: number
+  channel: number        // Zero-based (9 = GM drums)
+  name: string
+  notes: MidiNote[]
+}
+
+export interface MidiFileData {
+  format: number
+  ppq: number
+  tempo: number | null                 // BPM from the first tempo meta event
+  timeSignature: TimeSignature | null  // From the first time signature meta event
+  sources: MidiSource[]
+}
+
+/**
+ * Standard MIDI File (type 0/1) parser
+ */
+export class MidiImporter {
+  /**
+   * Parse a .mid file buffer
+   * Throws if the data is not a supported MIDI file
+   */
+  static parse(buffer: ArrayBuffer): MidiFileData {
+    const view = new DataView(buffer)
+    const bytes = new Uint8Array(buffer)
+
+    if (bytes.length < 14 || this.readString(bytes, 0, 4) !== 'MThd') {
+      throw new Error('Not a MIDI file')
+    }
+
+    const headerLength = view.getUint32(4)
+    const format = view.getUint16(8)
+    const trackCount = view.getUint16(10)
+    const division = view.getUint16(12)
+
+    if (format > 1) {
+      throw new Error(`Unsupported MIDI format ${format}`)
+    }
+    if (division & 0x8000) {
+      throw new Error('SMPTE time division is not supported')
+    }
+
+    const result: MidiFileData = {
+      format,
+      ppq: division,
+      tempo: null,
+      timeSignature: null,
+      sources: [],
+    }
+
+    let offset = 8 + headerLength
+    for (let trackIndex = 0; trackIndex < trackCount && offset + 8 <= bytes.length; trackIndex++) {
+      const chunkType = this.readString(bytes, offset, 4)
+      const chunkLength = view.getUint32(offset + 4)
+      const chunkStart = offset + 8
+      offset = chunkStart + chunkLength
+
+      if (chunkType !== 'MTrk') {
+        // Skip unknown chunks without consuming a track slot
+        trackIndex--
+        continue
+      }
+
+      this.parseTrack(bytes, chunkStart, Math.min(offset, bytes.length), trackIndex, result)
+    }
+
+    result.sources = result.sources.filter(s => s.notes.length > 0)
+    return result
+  }
+
+  /**
+   * Quantize MIDI notes to the 16th-note grid used by Note.startBeat/duration
+   */
+  static quantizeNotes(notes: MidiNote[], ppq: number): Array<Omit<Note, 'id'>> {
+    const ticksPer16th = ppq / 4
+    const seen = new Set<string>()
+    const result: Array<Omit<Note, 'id'>> = []
+
+    for (const note of notes) {
+      const startBeat = Math.round(note.startTick / ticksPer16th)
+      const duration = Math.max(1, Math.round(note.durationTicks / ticksPer16th))
+
+      // Notes collapsed onto the same cell would be indistinguishable in the grid
+      const key = `${note.pitch}:${startBeat}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      result.push({
+        pitch: note.pitch,
+        startBeat,
+        duration,
+        velocity: note.velocity,
+      })
+    }
+
+    return result.sort((a, b) => a.startBeat - b.startBeat)
+  }
+
+  /**
+   * Check if a source should go to the drums track (GM channel 10)
+   */
+  static isDrumSource(source: MidiSource): boolean {
+    return source.channel === MIDI_DRUM_CHANNEL
+  }
+
+  private static parseTrack(
+    bytes: Uint8Array,
+    start: number,
+    end: number,
+    trackIndex: number,
+    result: MidiFileData
+  ): void {
+    const sources = new Map<number, MidiSource>()
+    const openNotes = new Map<string, Array<{ startTick: number; velocity: number }>>()
+    let trackName = ''
+    let tick = 0
+    let runningStatus = 0
+    let offset = start
+
+    const getSource = (channel: number): MidiSource => {
+      let source = sources.get(channel)
+      if (!source) {
+        source = { key: `${trackIndex}:${channel}`, trackIndex, channel, name: '', notes: [] }
+        sources.set(channel, source)
+      }
+      return source
+    }
+
+    const closeNote = (channel: number, pitch: number, endTick: number): void => {
+      const stack = openNotes.get(`${channel}:${pitch}`)
+      const opened = stack?.shift()
+      if (!opened) return
+
+      getSource(channel).notes.push({
+        pitch,
+        startTick: opened.startTick,
+        durationTicks: endTick - opened.startTick,
+        velocity: opened.velocity,
+      })
+    }
+
+    while (offset < end) {
+      const delta = this.readVarLength(bytes, offset)
+      offset = delta.next
+      tick += delta.value
+
+      let status = bytes[offset]
+      if (status & 0x80) {
+        offset++
+      } else {
+        // Running status: reuse the previous channel status byte
+        status = runningStatus
+      }
+
+      if (status === 0xFF) {
+        const type = bytes[offset]
+        const length = this.readVarLength(bytes, offset + 1)
+        const dataStart = length.next
+        offset = dataStart + length.value
+
+        if (type === 0x03 && !trackName) {
+          trackName = new TextDecoder().decode(bytes.subarray(dataStart, offset))
+        } else if (type === 0x51 && result.tempo === null && length.value === 3) {
+          const microseconds = (bytes[dataStart] << 16) | (bytes[dataStart + 1] << 8) | bytes[dataStart + 2]
+          result.tempo = Math.round(60000000 / microseconds)
+        } else if (type === 0x58 && result.timeSignature === null && length.value >= 2) {
+          result.timeSignature = {
+            numerator: bytes[dataStart],
+            denominator: Math.pow(2, bytes[dataStart + 1]),
+          }
+        } else if (type === 0x2F) {
+          break
+        }
+        continue
+      }
+
+      if (status === 0xF0 || status === 0xF7) {
+        const length = this.readVarLength(bytes, offset)
+        offset = length.next + length.value
+        continue
+      }
+
+      if (!(status & 0x80)) {
+        throw new Error('Invalid MIDI event data')
+      }
+
+      runningStatus = status
+      const type = status & 0xF0
+      const channel = status & 0x0F
+      const dataLength = type === 0xC0 || type === 0xD0 ? 1 : 2
+      const data1 = bytes[offset]
+      const data2 = bytes[offset + 1]
+      offset += dataLength
+
+      if (type === 0x90 && data2 > 0) {
+        const key = `${channel}:${data1}`
+        const stack = openNotes.get(key) ?? []
+        stack.push({ startTick: tick, velocity: data2 / 127 })
+        openNotes.set(key, stack)
+        getSource(channel)
+      } else if (type === 0x80 || type === 0x90) {
+        closeNote(channel, data1, tick)
+      }
+    }
+
+    // Close hanging notes at the end of the track
+    for (const [key, stack] of openNotes) {
+      const [channel, pitch] = key.split(':').map(Number)
+      while (stack.length > 0) {
+        closeNote(channel, pitch, tick)
+      }
+    }
+
+    for (const source of sources.values()) {
+      source.name = trackName || `Track ${trackIndex + 1}`
+      if (sources.size > 1) {
+        source.name += ` (Ch ${source.channel + 1})`
+      }
+      source.notes.sort((a, b) => a.startTick - b.startTick)
+      result.sources.push(source)
+    }
+  }
+
+  private static readVarLength(bytes: Uint8Array, offset: number): { value: number; next: number } {
+    let value = 0
+    let next = offset
+
+    for (let i = 0; i < 4 && next < bytes.length; i++) {
+      const byte = bytes[next++]
+      value = (value << 7) | (byte & 0x7F)
+      if (!(byte & 0x80)) break
+    }
+
+    return { value, next }
+  }
+
+  private static readString(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length))
+  }
+}
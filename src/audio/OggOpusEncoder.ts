@@ -0,0 +1,302 @@
+/**
+ * In-browser Ogg Opus encoder
+ * Opus packets come from the WebCodecs AudioEncoder, the Ogg container is written here
+ */
+
+// Opus always runs at 48kHz internally; render at this rate to avoid resampling
+export const OPUS_SAMPLE_RATE = 48000
+
+// Encoder lookahead to skip at the start of playback (libopus default, 6.5ms)
+const OPUS_PRE_SKIP = 312
+
+// Samples handed to the encoder per AudioData chunk
+const CHUNK_FRAMES = 4800
+
+// Keep Ogg pages around this size (bytes of packet data)
+const MAX_PAGE_BYTES = 4096
+
+export interface OggOpusOptions {
+  bitrate: number                  // Bits per second
+  tags?: Record<string, string>    // Vorbis comments (e.g. TITLE)
+  onProgress?: (progress: number) => void
+}
+
+interface OpusPacket {
+  data: Uint8Array
+  samples: number    // Duration at 48kHz
+}
+
+export class OggOpusEncoder {
+  private static crcTable: Uint32Array | null = null
+
+  /**
+   * Check whether the browser can encode Opus via WebCodecs
+   */
+  static async isSupported(bitrate = 128000, numberOfChannels = 2): Promise<boolean> {
+    if (typeof AudioEncoder === 'undefined') return false
+
+    try {
+      const support = await AudioEncoder.isConfigSupported({
+        codec: 'opus',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfChannels,
+        bitrate,
+      })
+      return support.supported === true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Encode a 48kHz AudioBuffer to an Ogg Opus blob
+   */
+  static async encode(buffer: AudioBuffer, options: OggOpusOptions): Promise<Blob> {
+    const { bitrate, tags = {}, onProgress } = options
+    const numberOfChannels = Math.min(2, buffer.numberOfChannels)
+
+    if (buffer.sampleRate !== OPUS_SAMPLE_RATE) {
+      throw new Error(`Opus encoding requires ${OPUS_SAMPLE_RATE}Hz audio`)
+    }
+    if (!(await this.isSupported(bitrate, numberOfChannels))) {
+      throw new Error('Opus encoding is not supported in this browser')
+    }
+
+    const packets = await this.encodePackets(buffer, numberOfChannels, bitrate, onProgress)
+
+    return this.mux(packets, numberOfChannels, buffer.length, tags)
+  }
+
+  /**
+   * Run the buffer through the WebCodecs encoder
+   */
+  private static async encodePackets(
+    buffer: AudioBuffer,
+    numberOfChannels: number,
+    bitrate: number,
+    onProgress?: (progress: number) => void
+  ): Promise<OpusPacket[]> {
+    const packets: OpusPacket[] = []
+    let encodeError: DOMException | null = null
+
+    const encoder = new AudioEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength)
+        chunk.copyTo(data)
+        const samples = Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1000000)
+        packets.push({ data, samples })
+      },
+      error: (e) => {
+        encodeError = e
+      },
+    })
+
+    encoder.configure({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels,
+      bitrate,
+    })
+
+    const channels: Float32Array[] = []
+    for (let c = 0; c < numberOfChannels; c++) {
+      channels.push(buffer.getChannelData(c))
+    }
+
+    for (let offset = 0; offset < buffer.length; offset += CHUNK_FRAMES) {
+      const frames = Math.min(CHUNK_FRAMES, buffer.length - offset)
+      const planar = new Float32Array(frames * numberOfChannels)
+      for (let c = 0; c < numberOfChannels; c++) {
+        planar.set(channels[c].subarray(offset, offset + frames), c * frames)
+      }
+
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((offset * 1000000) / OPUS_SAMPLE_RATE),
+        data: planar,
+      })
+      encoder.encode(audioData)
+      audioData.close()
+
+      onProgress?.(offset / buffer.length)
+    }
+
+    await encoder.flush()
+    encoder.close()
+
+    if (encodeError) throw encodeError
+
+    return packets
+  }
+
+  /**
+   * Wrap Opus packets in an Ogg stream (RFC 7845)
+   */
+  private static mux(
+    packets: OpusPacket[],
+    numberOfChannels: number,
+    totalSamples: number,
+    tags: Record<string, string>
+  ): Blob {
+    const serial = Math.floor(Math.random() * 0xFFFFFFFF)
+    const pages: Uint8Array[] = []
+    let sequence = 0
+
+    // Identification and comment headers each get their own page
+    pages.push(this.createPage([this.createOpusHead(numberOfChannels)], 0, serial, sequence++, 0x02))
+    pages.push(this.createPage([this.createOpusTags(tags)], 0, serial, sequence++, 0x00))
+
+    // Final granule trims encoder padding back to the exact rendered length
+    const endGranule = OPUS_PRE_SKIP + totalSamples
+
+    let pagePackets: Uint8Array[] = []
+    let pageBytes = 0
+    let pageSegments = 0
+    let granule = OPUS_PRE_SKIP
+
+    for (let i = 0; i < packets.length; i++) {
+      const packet = packets[i]
+      const segments = Math.floor(packet.data.length / 255) + 1
+
+      if (pagePackets.length > 0 && (pageSegments + segments > 255 || pageBytes + packet.data.length > MAX_PAGE_BYTES)) {
+        pages.push(this.createPage(pagePackets, Math.min(granule, endGranule), serial, sequence++, 0x00))
+        pagePackets = []
+        pageBytes = 0
+        pageSegments = 0
+      }
+
+      pagePackets.push(packet.data)
+      pageBytes += packet.data.length
+      pageSegments += segments
+      granule += packet.samples
+    }
+
+    pages.push(this.createPage(pagePackets, endGranule, serial, sequence++, 0x04))
+
+    return new Blob(pages, { type: 'audio/ogg' })
+  }
+
+  /**
+   * OpusHead identification header
+   */
+  private static createOpusHead(numberOfChannels: number): Uint8Array {
+    const bytes = new Uint8Array(19)
+    const view = new DataView(bytes.buffer)
+
+    this.writeString(bytes, 0, 'OpusHead')
+    bytes[8] = 1                                   // Version
+    bytes[9] = numberOfChannels
+    view.setUint16(10, OPUS_PRE_SKIP, true)
+    view.setUint32(12, OPUS_SAMPLE_RATE, true)     // Original input rate
+    view.setInt16(16, 0, true)                     // Output gain
+    bytes[18] = 0                                  // Channel mapping family (mono/stereo)
+
+    return bytes
+  }
+
+  /**
+   * OpusTags comment header with Vorbis-style KEY=value comments
+   */
+  private static createOpusTags(tags: Record<string, string>): Uint8Array {
+    const encoder = new TextEncoder()
+    const vendor = encoder.encode('Pixel Music')
+    const comments = Object.entries(tags).map(([key, value]) => encoder.encode(`${key}=${value}`))
+
+    const length = 8 + 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0)
+    const bytes = new Uint8Array(length)
+    const view = new DataView(bytes.buffer)
+
+    this.writeString(bytes, 0, 'OpusTags')
+    let offset = 8
+    view.setUint32(offset, vendor.length, true)
+    bytes.set(vendor, offset + 4)
+    offset += 4 + vendor.length
+
+    view.setUint32(offset, comments.length, true)
+    offset += 4
+    for (const comment of comments) {
+      view.setUint32(offset, comment.length, true)
+      bytes.set(comment, offset + 4)
+      offset += 4 + comment.length
+    }
+
+    return bytes
+  }
+
+  /**
+   * Build one Ogg page holding whole packets
+   * headerType: 0x02 = beginning of stream, 0x04 = end of stream
+   */
+  private static createPage(
+    packets: Uint8Array[],
+    granule: number,
+    serial: number,
+    sequence: number,
+    headerType: number
+  ): Uint8Array {
+    const lacing: number[] = []
+    for (const packet of packets) {
+      let remaining = packet.length
+      while (remaining >= 255) {
+        lacing.push(255)
+        remaining -= 255
+      }
+      lacing.push(remaining)
+    }
+
+    const bodyLength = packets.reduce((sum, p) => sum + p.length, 0)
+    const page = new Uint8Array(27 + lacing.length + bodyLength)
+    const view = new DataView(page.buffer)
+
+    this.writeString(page, 0, 'OggS')
+    page[4] = 0                                              // Stream structure version
+    page[5] = headerType
+    view.setUint32(6, granule % 0x100000000, true)           // Granule position (64-bit)
+    view.setUint32(10, Math.floor(granule / 0x100000000), true)
+    view.setUint32(14, serial, true)
+    view.setUint32(18, sequence, true)
+    view.setUint32(22, 0, true)                              // CRC placeholder
+    page[26] = lacing.length
+    page.set(lacing, 27)
+
+    let offset = 27 + lacing.length
+    for (const packet of packets) {
+      page.set(packet, offset)
+      offset += packet.length
+    }
+
+    view.setUint32(22, this.crc32(page), true)
+    return page
+  }
+
+  /**
+   * Ogg CRC-32 (polynomial 0x04C11DB7, no reflection)
+   */
+  private static crc32(bytes: Uint8Array): number {
+    if (!this.crcTable) {
+      this.crcTable = new Uint32Array(256)
+      for (let i = 0; i < 256; i++) {
+        let r = i << 24
+        for (let j = 0; j < 8; j++) {
+          r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1
+        }
+        this.crcTable[i] = r >>> 0
+      }
+    }
+
+    let crc = 0
+    for (let i = 0; i < bytes.length; i++) {
+      crc = ((crc << 8) ^ this.crcTable[((crc >>> 24) ^ bytes[i]) & 0xFF]) >>> 0
+    }
+    return crc
+  }
+
+  private static writeString(bytes: Uint8Array, offset: number, string: string): void {
+    for (let i = 0; i < string.length; i++) {
+      bytes[offset + i] = string.charCodeAt(i)
+    }
+  }
+}
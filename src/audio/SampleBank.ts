@@ -0,0 +1,21 @@
+import type { Sample } from '@/types/sample'
+
+/**
+ * Imported samples held in memory for the synth
+ * Filled from IndexedDB at startup so live and offline voices can read them synchronously
+ */
+export class SampleBank {
+  private static samples = new Map<string, Sample>()
+
+  static add(sample: Sample): void {
+    this.samples.set(sample.id, sample)
+  }
+
+  static get(id: string | undefined): Sample | undefined {
+    return id ? this.samples.get(id) : undefined
+  }
+
+  static remove(id: string): void {
+    this.samples.delete(id)
+  }
+}
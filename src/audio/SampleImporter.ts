@@ -0,0 +1,109 @@
+import type { Sample, SampleFormat } from '@/types/sample'
+import { DEFAULT_SAMPLE_ROOT, MAX_SAMPLE_SECONDS, getSampleFormat } from '@/data/sampleFormats'
+
+// Rate files are decoded at before any reduction
+const DECODE_SAMPLE_RATE = 44100
+
+/**
+ * Turns audio files into samples, optionally reduced to console sample hardware
+ */
+export class SampleImporter {
+  /**
+   * Decode a WAV (or any format the browser reads) into a mono sample
+   * Throws if the data cannot be decoded
+   */
+  static async fromFile(buffer: ArrayBuffer, name: string, format: SampleFormat): Promise<Sample> {
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+    const audio = await context.decodeAudioData(buffer)
+    const converted = this.convert(this.toMono(audio), audio.sampleRate, format)
+
+    return {
+      id: crypto.randomUUID(),
+      name: name.replace(/\.[^.]+$/, '') || 'Sample',
+      format,
+      sampleRate: converted.sampleRate,
+      rootPitch: DEFAULT_SAMPLE_ROOT,
+      data: converted.data,
+      createdAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Average the channels, keeping at most MAX_SAMPLE_SECONDS
+   */
+  static toMono(audio: AudioBuffer): Float32Array {
+    const length = Math.min(audio.length, Math.floor(audio.sampleRate * MAX_SAMPLE_SECONDS))
+    const mono = new Float32Array(length)
+
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+      const data = audio.getChannelData(channel)
+      for (let i = 0; i < length; i++) {
+        mono[i] += data[i] / audio.numberOfChannels
+      }
+    }
+
+    return mono
+  }
+
+  /**
+   * Reduce a sound to a format's rate and resolution
+   */
+  static convert(
+    data: Float32Array,
+    sampleRate: number,
+    format: SampleFormat
+  ): { data: Float32Array; sampleRate: number } {
+    const targetRate = getSampleFormat(format).sampleRate
+    if (targetRate === null) return { data, sampleRate }
+
+    const resampled = this.resample(data, sampleRate, targetRate)
+    return {
+      data: format === 'dpcm' ? this.toDpcm(resampled) : this.toGameBoyWave(resampled),
+      sampleRate: targetRate,
+    }
+  }
+
+  /**
+   * Sample-and-hold resampling; the aliasing is part of the console sound
+   */
+  private static resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+    const ratio = fromRate / toRate
+    const output = new Float32Array(Math.max(1, Math.floor(data.length / ratio)))
+
+    for (let i = 0; i < output.length; i++) {
+      output[i] = data[Math.min(data.length - 1, Math.floor(i * ratio))]
+    }
+
+    return output
+  }
+
+  /**
+   * NES DPCM: a 7-bit level that can only step up or down by 2 each sample
+   */
+  private static toDpcm(data: Float32Array): Float32Array {
+    const output = new Float32Array(data.length)
+    let level = 64
+
+    for (let i = 0; i < data.length; i++) {
+      const target = (data[i] + 1) * 63.5
+      if (target > level && level <= 125) {
+        level += 2
+      } else if (target < level && level >= 2) {
+        level -= 2
+      }
+      output[i] = level / 63.5 - 1
+    }
+
+    return output
+  }
+
+  /**
+   * Game Boy wave channel: 16 levels per sample
+   */
+  private static toGameBoyWave(data: Float32Array): Float32Array {
+    return data.map(value => {
+      const step = Math.round((Math.max(-1, Math.min(1, value)) + 1) * 7.5)
+      return step / 7.5 - 1
+    })
+  }
+}
@@ -4,8 +4,13 @@
  * https://www.html5rocks.com/en/tutorials/audio/scheduling/
  */
 
+import type { TimeSignature } from '@/types/project'
+import { stepsPerBar, stepsPerBeat } from '@/data/timeSignatures'
+
 export type BeatCallback = (beat: number, time: number) => void
 export type VisualBeatCallback = (beat: number) => void
+export type ClickCallback = (time: number, accent: boolean) => void
+export type TempoMap = (beat: number) => number | undefined   // undefined keeps the set tempo
 
 export class Scheduler {
   private context: AudioContext
@@ -13,6 +18,8 @@ export class Scheduler {
   private currentBeat = 0
   private nextNoteTime = 0
   private tempo = 120
+  private stepTempo = 120   // Tempo of the step being scheduled (follows the tempo map)
+  private tempoMap: TempoMap | null = null
   private timerID: number | null = null
 
   // Look-ahead scheduling parameters
@@ -25,15 +32,28 @@ export class Scheduler {
   // Queue of scheduled notes for visual sync
   private notesInQueue: Array<{ beat: number; time: number }> = []
 
+  // Last step that reached the speakers, for placing recorded notes
+  private lastHeard: { beat: number; time: number } | null = null
+
   // Callbacks
   private onBeatCallback: BeatCallback | null = null
   private onVisualBeatCallback: VisualBeatCallback | null = null
+  private onClickCallback: ClickCallback | null = null
 
-  // Loop settings
+  // Metronome clicks on every counted beat; the count-in clicks before the first step
+  private metronomeEnabled = false
+  private countInRemaining = 0
+
+  // Loop settings (beats from introStart to loopStart play once before the loop)
+  private introStart = 0
   private loopStart = 0
   private loopEnd = 16
   private loopEnabled = true
 
+  // Meter: every step is a 16th note, grouped into counted beats and bars
+  private stepsPerBeat = 4
+  private stepsPerBar = 16
+
   // Animation frame ID for visual updates
   private animationFrameId: number | null = null
 
@@ -42,23 +62,27 @@ export class Scheduler {
   }
 
   /**
-   * Start playback
+   * Start playback, optionally after a count-in of whole bars
    */
   start(
     tempo: number,
     onBeat: BeatCallback,
     onVisualBeat?: VisualBeatCallback,
-    startBeat = 0
+    startBeat = this.introStart,
+    countInBars = 0
   ): void {
     if (this.isPlaying) return
 
     this.tempo = tempo
+    this.stepTempo = this.tempoAt(startBeat)
     this.onBeatCallback = onBeat
     this.onVisualBeatCallback = onVisualBeat || null
     this.isPlaying = true
     this.currentBeat = startBeat
     this.nextNoteTime = this.context.currentTime
     this.notesInQueue = []
+    this.lastHeard = null
+    this.countInRemaining = Math.max(0, countInBars) * this.stepsPerBar
 
     this.schedule()
     this.startVisualUpdater()
@@ -81,7 +105,9 @@ export class Scheduler {
     }
 
     this.notesInQueue = []
-    this.currentBeat = 0
+    this.lastHeard = null
+    this.countInRemaining = 0
+    this.currentBeat = this.introStart
   }
 
   /**
@@ -89,6 +115,7 @@ export class Scheduler {
    */
   pause(): void {
     this.isPlaying = false
+    this.countInRemaining = 0
 
     if (this.timerID !== null) {
       clearTimeout(this.timerID)
@@ -119,17 +146,77 @@ export class Scheduler {
    */
   setTempo(tempo: number): void {
     this.tempo = Math.max(40, Math.min(240, tempo))
+    this.stepTempo = this.tempoAt(this.currentBeat)
+  }
+
+  /**
+   * Follow a tempo per step, e.g. from automation (null = the fixed tempo)
+   */
+  setTempoMap(tempoMap: TempoMap | null): void {
+    this.tempoMap = tempoMap
   }
 
   /**
-   * Set loop region
+   * Get current tempo (including tempo map changes)
    */
-  setLoop(start: number, end: number, enabled = true): void {
+  getTempo(): number {
+    return this.stepTempo
+  }
+
+  /**
+   * Set loop region, with an optional intro from introStart that plays once
+   */
+  setLoop(start: number, end: number, enabled = true, introStart = start): void {
+    this.introStart = Math.min(introStart, start)
     this.loopStart = start
     this.loopEnd = end
     this.loopEnabled = enabled
   }
 
+  /**
+   * Set where metronome and count-in clicks go (accent = downbeat)
+   */
+  setClickCallback(onClick: ClickCallback | null): void {
+    this.onClickCallback = onClick
+  }
+
+  /**
+   * Turn metronome clicks on counted beats on or off (can be called during playback)
+   */
+  setMetronomeEnabled(enabled: boolean): void {
+    this.metronomeEnabled = enabled
+  }
+
+  /**
+   * Check if a count-in is still clicking before playback
+   */
+  getIsCountingIn(): boolean {
+    return this.countInRemaining > 0
+  }
+
+  /**
+   * Set the meter used for beat and bar positions
+   * Tempo always counts quarter notes, so step timing does not change
+   */
+  setTimeSignature(signature: TimeSignature): void {
+    this.stepsPerBeat = stepsPerBeat(signature)
+    this.stepsPerBar = stepsPerBar(signature)
+  }
+
+  /**
+   * Whether a step falls on a counted beat of the meter
+   */
+  isBeatStart(step: number): boolean {
+    return step % this.stepsPerBeat === 0
+  }
+
+  /**
+   * Whether a step is the downbeat of a bar
+   */
+  isBarStart(step: number): boolean {
+    return step % this.stepsPerBar === 0
+  }
+
   /**
    * Get current beat position
    */
@@ -137,6 +224,25 @@ export class Scheduler {
     return this.currentBeat
   }
 
+  /**
+   * Step being heard right now, rounded to the nearest 16th and wrapped into the loop
+   * Used to place notes recorded live against what the player hears
+   */
+  getQuantizedBeat(): number {
+    if (!this.lastHeard) {
+      // Counting in or nothing heard yet: the first step to play
+      return this.notesInQueue[0]?.beat ?? this.currentBeat
+    }
+
+    const elapsed = Math.round((this.context.currentTime - this.lastHeard.time) / this.durationToTime(1))
+    const beat = this.lastHeard.beat + elapsed
+
+    if (this.loopEnabled && beat >= this.loopEnd) {
+      return this.loopStart + ((beat - this.loopEnd) % Math.max(1, this.loopEnd - this.loopStart))
+    }
+    return beat
+  }
+
   /**
    * Check if scheduler is playing
    */
@@ -153,7 +259,13 @@ export class Scheduler {
 
     // Schedule all notes that need to play before the next look-ahead window
     while (this.nextNoteTime < this.context.currentTime + this.SCHEDULE_AHEAD_SEC) {
-      this.scheduleNote(this.currentBeat, this.nextNoteTime)
+      this.stepTempo = this.tempoAt(this.currentBeat)
+
+      if (this.countInRemaining > 0) {
+        this.scheduleCountIn(this.nextNoteTime)
+      } else {
+        this.scheduleNote(this.currentBeat, this.nextNoteTime)
+      }
       this.advanceNote()
     }
 
@@ -170,6 +282,19 @@ export class Scheduler {
 
     // Call the beat callback to trigger actual note playing
     this.onBeatCallback?.(beat, time)
+
+    if (this.metronomeEnabled && this.isBeatStart(beat)) {
+      this.onClickCallback?.(time, this.isBarStart(beat))
+    }
+  }
+
+  /**
+   * Click one count-in step; the count-in is whole bars, so counting down lines up with the meter
+   */
+  private scheduleCountIn(time: number): void {
+    if (this.countInRemaining % this.stepsPerBeat === 0) {
+      this.onClickCallback?.(time, this.countInRemaining % this.stepsPerBar === 0)
+    }
   }
 
   /**
@@ -177,13 +302,20 @@ export class Scheduler {
    */
   private advanceNote(): void {
     // Calculate time for next 16th note
-    const secondsPerBeat = 60.0 / this.tempo
+    const secondsPerBeat = 60.0 / this.stepTempo
     const secondsPer16th = secondsPerBeat / 4
 
     this.nextNoteTime += secondsPer16th
+
+    // Count-in steps take time but do not move the song position
+    if (this.countInRemaining > 0) {
+      this.countInRemaining--
+      return
+    }
+
     this.currentBeat++
 
-    // Handle looping
+    // Handle looping (jumps back to loopStart, so the intro only plays once)
     if (this.loopEnabled && this.currentBeat >= this.loopEnd) {
       this.currentBeat = this.loopStart
     }
@@ -202,6 +334,7 @@ export class Scheduler {
       // Process all notes that should have played by now
       while (this.notesInQueue.length > 0 && this.notesInQueue[0].time < currentTime) {
         const note = this.notesInQueue.shift()!
+        this.lastHeard = note
         this.onVisualBeatCallback?.(note.beat)
       }
 
@@ -211,11 +344,19 @@ export class Scheduler {
     this.animationFrameId = requestAnimationFrame(update)
   }
 
+  /**
+   * Tempo for a step, kept in the supported range
+   */
+  private tempoAt(beat: number): number {
+    const tempo = this.tempoMap?.(beat) ?? this.tempo
+    return Math.max(40, Math.min(240, tempo))
+  }
+
   /**
    * Get the time in seconds for a given beat at current tempo
    */
   beatToTime(beat: number): number {
-    const secondsPerBeat = 60.0 / this.tempo
+    const secondsPerBeat = 60.0 / this.stepTempo
     return (beat * secondsPerBeat) / 4 // 16th notes
   }
 
@@ -223,7 +364,7 @@ export class Scheduler {
    * Get duration in seconds for a note length in beats
    */
   durationToTime(duration: number): number {
-    const secondsPerBeat = 60.0 / this.tempo
+    const secondsPerBeat = 60.0 / this.stepTempo
     return (duration * secondsPerBeat) / 4
   }
 }
@@ -0,0 +1,939 @@
+import type { Note, NoteEffect, NoteEffectType } from '@/types/note'
+import type { ADSRParams, InstrumentConfig, InstrumentMacros, MacroSequence, MacroType, WaveformType } from '@/types/instrument'
+import { DEFAULT_EFFECTS, DEFAULT_INSTRUMENT } from '@/types/instrument'
+import { DUTY_CYCLES, clampEffectParam } from '@/data/noteEffects'
+import { MAX_MACRO_LENGTH, getMacroInfo } from '@/data/instrumentMacros'
+
+export type TrackerFormat = 'famitracker' | 'mod' | 'xm'
+
+/**
+ * Notes of one tracker channel, already on the 16th grid
+ */
+export interface TrackerSource {
+  key: string
+  name: string
+  drums: boolean                       // Noise channel notes, mapped onto General MIDI drum pads
+  notes: Array<Omit<Note, 'id'>>
+  instrument: InstrumentConfig | null  // Closest sound to the channel's most used instrument
+}
+
+/**
+ * Something in the module the project cannot represent, with how often it occurs
+ */
+export interface TrackerIssue {
+  message: string
+  count: number
+}
+
+export interface TrackerFileData {
+  format: TrackerFormat
+  title: string
+  tempo: number              // BPM with one 16th step per row (or per rowsPerStep rows)
+  rowsPerStep: number
+  loopStart: number | null   // Step the song jumps back to at its end
+  sources: TrackerSource[]
+  issues: TrackerIssue[]
+}
+
+// What a row's effect column does to the song, in the same form for every format
+type RowEffect =
+  | { kind: 'note'; effect: NoteEffect }
+  | { kind: 'jump'; order: number }
+  | { kind: 'break'; row: number }
+  | { kind: 'halt' }
+  | { kind: 'speed'; speed?: number; tempo?: number }
+  | { kind: 'unsupported'; name: string; code: string }
+
+// One channel on one row
+interface TrackerCell {
+  note: number | 'off' | null   // MIDI pitch before the instrument's transpose
+  instrument: number | null
+  volume: number | null          // 0-1
+  effects: RowEffect[]
+}
+
+interface TrackerInstrument {
+  name: string
+  volume?: number      // Default note volume of sampled instruments
+  transpose: number    // Semitones between the written note and the pitch it sounds at
+  config: InstrumentConfig
+}
+
+interface TrackerChannel {
+  name: string
+  drums: boolean
+  waveform?: WaveformType   // Fixed by the hardware channel (the NES triangle)
+}
+
+// A parsed module before its order list is played through
+interface TrackerSong {
+  format: TrackerFormat
+  title: string
+  speed: number              // Ticks per row
+  tempo: number              // Tracker tempo; speed 6 plays four rows per beat at this BPM
+  channels: TrackerChannel[]
+  frames: TrackerCell[][][]  // [order position][row][channel]
+  restart: number | null     // Order position the module restarts at after its last one
+  instruments: Map<number, TrackerInstrument>
+}
+
+type Report = (message: string) => void
+
+interface FamiTrackerMacro {
+  loop: number
+  release: number
+  setting: number   // Arpeggio: 0 absolute, 1 fixed, 2 relative; pitch: 0 relative, 1 absolute
+  values: number[]
+}
+
+const FAMITRACKER_CHANNELS: TrackerChannel[] = [
+  { name: 'Pulse 1', drums: false },
+  { name: 'Pulse 2', drums: false },
+  { name: 'Triangle', drums: false, waveform: 'triangle' },
+  { name: 'Noise', drums: true },
+  { name: 'DPCM', drums: true },
+]
+
+const FAMITRACKER_NOISE = 3
+const FAMITRACKER_DPCM = 4
+
+// FamiTracker macro types, in INST2A03 column order
+const MACRO_VOLUME = 0
+const MACRO_ARPEGGIO = 1
+const MACRO_PITCH = 2
+const MACRO_HI_PITCH = 3
+const MACRO_DUTY = 4
+
+const NOTE_NAMES = ['C-', 'C#', 'D-', 'D#', 'E-', 'F-', 'F#', 'G-', 'G#', 'A-', 'A#', 'B-']
+
+// Effects that have no project equivalent, by their tracker letter
+const FAMITRACKER_EFFECT_NAMES: Record<string, string> = {
+  '4': 'Vibrato', '7': 'Tremolo', E: 'Volume', H: 'Sweep up', I: 'Sweep down', L: 'Note release',
+  M: 'Delayed volume', P: 'Fine pitch', Q: 'Note slide up', R: 'Note slide down', T: 'Delayed transpose',
+  W: 'DPCM pitch', X: 'DPCM retrigger', Y: 'DPCM sample offset', Z: 'DPCM delta counter',
+}
+
+const MODULE_EFFECT_NAMES: Record<string, string> = {
+  '4': 'Vibrato', '5': 'Portamento with volume slide', '6': 'Vibrato with volume slide', '7': 'Tremolo',
+  '8': 'Panning', '9': 'Sample offset', G: 'Global volume', H: 'Global volume slide', K: 'Key off',
+  L: 'Envelope position', P: 'Panning slide', R: 'Retrigger', T: 'Tremor', X: 'Extra fine portamento',
+}
+
+const EXTENDED_EFFECT_NAMES: Record<string, string> = {
+  '1': 'Fine slide up', '2': 'Fine slide down', '3': 'Glissando', '4': 'Vibrato waveform', '5': 'Finetune',
+  '6': 'Pattern loop', '7': 'Tremolo waveform', '9': 'Retrigger', A: 'Fine volume slide up',
+  B: 'Fine volume slide down', E: 'Pattern delay',
+}
+
+// Playback rates of a sample at the note written as C-4 (MIDI 60): Amiga C-2 and FastTracker C-4
+const MOD_RATE = 8287
+const XM_RATE = 8363
+const MIDDLE_C = 261.63
+
+// Sample loops this short are single-cycle chip waveforms rather than recordings
+const MAX_CYCLE_LENGTH = 512
+
+const MAX_BPM = 240
+const MIN_BPM = 40
+
+/**
+ * Reader for FamiTracker text exports and ProTracker (.mod) / FastTracker 2 (.xm) modules
+ * Rows become 16th steps, channels become sources for project tracks
+ */
+export class TrackerImporter {
+  /**
+   * Parse a module file buffer
+   * Throws if the data is not a supported format
+   */
+  static parse(buffer: ArrayBuffer): TrackerFileData {
+    const bytes = new Uint8Array(buffer)
+    const issues = new Map<string, number>()
+    const report: Report = message => issues.set(message, (issues.get(message) ?? 0) + 1)
+
+    let song: TrackerSong
+    if (this.readString(bytes, 0, 17) === 'Extended Module: ') {
+      song = this.parseXm(bytes, report)
+    } else if (new TextDecoder().decode(bytes.subarray(0, 64)).includes('FamiTracker text export')) {
+      song = this.parseFamiTracker(new TextDecoder().decode(bytes), report)
+    } else if (bytes.length >= 1084 && this.modChannelCount(this.readString(bytes, 1080, 4))) {
+      song = this.parseMod(bytes, report)
+    } else {
+      throw new Error('Not a FamiTracker text export, MOD or XM file')
+    }
+
+    return this.playSong(song, report, issues)
+  }
+
+  /**
+   * Check if a source should go to a drums track
+   */
+  static isDrumSource(source: TrackerSource): boolean {
+    return source.drums
+  }
+
+  /**
+   * Walk the order list like the tracker would, turning rows into notes per channel
+   */
+  private static playSong(song: TrackerSong, report: Report, issues: Map<string, number>): TrackerFileData {
+    const channels = song.channels.map(() => ({
+      notes: [] as Array<Omit<Note, 'id'> & { startRow: number }>,
+      open: null as (Omit<Note, 'id'> & { startRow: number }) | null,
+      volume: 1,
+      instrument: null as number | null,
+      uses: new Map<number, number>(),
+    }))
+
+    let speed = song.speed
+    let tempo = song.tempo
+    const frameStarts = new Map<number, number>()
+    let row = 0
+    let frame = 0
+    let firstRow = 0
+    let loopRow: number | null = null
+    let halted = false
+
+    const closeNote = (channel: (typeof channels)[number], endRow: number): void => {
+      if (!channel.open) return
+      channel.open.duration = Math.max(1, endRow - channel.open.startRow)
+      channel.notes.push(channel.open)
+      channel.open = null
+    }
+
+    while (frame < song.frames.length && !halted) {
+      if (frameStarts.has(frame)) {
+        loopRow = frameStarts.get(frame)!
+        break
+      }
+      frameStarts.set(frame, row)
+
+      const rows = song.frames[frame]
+      let next = frame + 1
+      let nextRow = 0
+
+      for (let r = Math.max(0, Math.min(firstRow, rows.length - 1)); r < rows.length; r++) {
+        let jumped = false
+
+        rows[r].forEach((cell, c) => {
+          const state = channels[c]
+          const noteEffects: NoteEffect[] = []
+
+          for (const effect of cell.effects) {
+            switch (effect.kind) {
+              case 'note':
+                noteEffects.push(effect.effect)
+                break
+              case 'jump':
+                next = effect.order
+                jumped = true
+                break
+              case 'break':
+                if (!jumped) next = frame + 1
+                nextRow = effect.row
+                jumped = true
+                break
+              case 'halt':
+                halted = true
+                break
+              case 'speed':
+                if (row === 0) {
+                  speed = effect.speed ?? speed
+                  tempo = effect.tempo ?? tempo
+                } else if ((effect.speed ?? speed) !== speed || (effect.tempo ?? tempo) !== tempo) {
+                  report('Speed and tempo changes after the first row are ignored')
+                }
+                break
+              case 'unsupported':
+                report(`${effect.name} (${effect.code}) is not imported`)
+                break
+            }
+          }
+
+          if (cell.instrument !== null) {
+            state.instrument = cell.instrument
+            const volume = song.instruments.get(cell.instrument)?.volume
+            if (volume !== undefined) state.volume = volume
+          }
+
+          if (typeof cell.note === 'number') {
+            closeNote(state, row)
+            if (cell.volume !== null) state.volume = cell.volume
+
+            const transpose = state.instrument !== null ? song.instruments.get(state.instrument)?.transpose ?? 0 : 0
+            state.open = {
+              pitch: Math.max(0, Math.min(127, cell.note + transpose)),
+              startBeat: 0,
+              startRow: row,
+              duration: 1,
+              velocity: state.volume,
+              ...(noteEffects[0] && { effect: noteEffects[0] }),
+            }
+            if (noteEffects.length > 1) report('Only the first effect of a note is kept')
+            if (state.instrument !== null) state.uses.set(state.instrument, (state.uses.get(state.instrument) ?? 0) + 1)
+          } else {
+            if (cell.note === 'off') closeNote(state, row)
+            if (cell.volume !== null) {
+              if (state.open) report('Volume changes in the middle of a note are not imported')
+              state.volume = cell.volume
+            }
+            if (noteEffects.length > 0) report('Effects on rows without a new note are not imported')
+          }
+        })
+
+        row++
+        if (jumped || halted) break
+      }
+
+      frame = next
+      firstRow = nextRow
+    }
+
+    if (loopRow === null && !halted && song.restart !== null) {
+      loopRow = frameStarts.get(song.restart) ?? null
+    }
+    for (const channel of channels) closeNote(channel, row)
+
+    // Fold rows together until the tempo fits the project's range
+    let bpm = (tempo * 6) / Math.max(1, speed)
+    let rowsPerStep = 1
+    while (bpm > MAX_BPM) {
+      bpm /= 2
+      rowsPerStep *= 2
+    }
+    if (rowsPerStep > 1) report(`Rows are faster than 16ths at ${MAX_BPM} BPM; every ${rowsPerStep} rows make one step`)
+    if (bpm < MIN_BPM) report(`The song's ${Math.round(bpm)} BPM is below ${MIN_BPM} BPM and plays faster`)
+
+    const sources: TrackerSource[] = []
+    channels.forEach((state, index) => {
+      if (state.notes.length === 0) return
+      const channel = song.channels[index]
+
+      const seen = new Set<string>()
+      const notes: Array<Omit<Note, 'id'>> = []
+      for (const { startRow, ...note } of state.notes) {
+        const startBeat = Math.round(startRow / rowsPerStep)
+        const key = `${note.pitch}:${startBeat}`
+        if (seen.has(key)) {
+          report('Notes closer together than a 16th step are merged')
+          continue
+        }
+        seen.add(key)
+        notes.push({ ...note, startBeat, duration: Math.max(1, Math.round(note.duration / rowsPerStep)) })
+      }
+
+      const [mostUsed] = [...state.uses].sort((a, b) => b[1] - a[1])
+      if (state.uses.size > 1) {
+        report(`${channel.name} switches between ${state.uses.size} instruments; its track takes the most used one`)
+      }
+
+      const instrument = mostUsed ? song.instruments.get(mostUsed[0]) : undefined
+      const base = instrument?.config ?? (channel.waveform ? this.createConfig() : null)
+
+      sources.push({
+        key: `channel:${index}`,
+        name: instrument ? `${channel.name} (${instrument.name})` : channel.name,
+        drums: channel.drums,
+        notes,
+        instrument: channel.drums || !base ? null : { ...base, waveform: channel.waveform ?? base.waveform },
+      })
+    })
+
+    return {
+      format: song.format,
+      title: song.title,
+      tempo: Math.round(Math.max(MIN_BPM, bpm)),
+      rowsPerStep,
+      loopStart: loopRow !== null ? Math.round(loopRow / rowsPerStep) : null,
+      sources,
+      issues: [...issues].map(([message, count]) => ({ message, count })),
+    }
+  }
+
+  /**
+   * FamiTracker "Export text" output: macros, 2A03 instruments and hex pattern rows
+   * Only the first song of a multi-song module is read
+   */
+  private static parseFamiTracker(text: string, report: Report): TrackerSong {
+    const macros = new Map<string, FamiTrackerMacro>()
+    const instrumentLines: string[] = []
+    const orders: number[][] = []
+    const patterns = new Map<number, Map<number, string[]>>()
+    let title = ''
+    let frameRate = 60
+    let songs = 0
+    let rowCount = 64
+    let speed = 6
+    let tempo = 150
+    let channelCount = FAMITRACKER_CHANNELS.length
+    let pattern = -1
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      const tokens = line.split(/\s+/)
+      const [head, body = ''] = line.split(' : ')
+
+      switch (tokens[0]) {
+        case 'TITLE':
+          title = this.quoted(line)
+          break
+        case 'MACHINE':
+          if (parseInt(tokens[1]) === 1) frameRate = 50
+          break
+        case 'FRAMERATE':
+          if (parseInt(tokens[1]) > 0) frameRate = parseInt(tokens[1])
+          break
+        case 'MACRO': {
+          const [, type, index, loop, release, setting] = head.split(/\s+/).map(Number)
+          macros.set(`${type}:${index}`, { loop, release, setting, values: body.trim().split(/\s+/).map(Number) })
+          break
+        }
+        case 'TRACK':
+          songs++
+          if (songs === 1) {
+            rowCount = parseInt(tokens[1])
+            speed = parseInt(tokens[2])
+            tempo = parseInt(tokens[3])
+          }
+          pattern = -1
+          break
+        case 'COLUMNS':
+          if (songs === 1) channelCount = body.trim().split(/\s+/).length
+          break
+        case 'ORDER':
+          if (songs === 1) orders.push(body.trim().split(/\s+/).map(p => parseInt(p, 16)))
+          break
+        case 'PATTERN':
+          pattern = songs === 1 ? parseInt(tokens[1], 16) : -1
+          break
+        case 'ROW': {
+          if (pattern < 0) break
+          const rows = patterns.get(pattern) ?? new Map<number, string[]>()
+          rows.set(parseInt(tokens[1], 16), line.split(' : ').slice(1).map(cell => cell.trim()))
+          patterns.set(pattern, rows)
+          break
+        }
+        default:
+          if (tokens[0].startsWith('INST')) instrumentLines.push(line)
+      }
+    }
+
+    if (songs === 0) {
+      throw new Error('The FamiTracker export has no song')
+    }
+    if (songs > 1) report(`Only the first of ${songs} songs is imported`)
+
+    const channels = Array.from({ length: channelCount }, (_, i) =>
+      FAMITRACKER_CHANNELS[i] ?? { name: `Expansion ${i - FAMITRACKER_CHANNELS.length + 1}`, drums: false }
+    )
+    if (channelCount > FAMITRACKER_CHANNELS.length) report('Expansion chip channels play with 2A03 instrument sounds')
+
+    const instruments = new Map<number, TrackerInstrument>()
+    for (const line of instrumentLines) {
+      const [type, index, ...columns] = line.split(/\s+/)
+      const name = this.quoted(line) || `Instrument ${index}`
+
+      if (type !== 'INST2A03') {
+        report(`${type.slice(4)} instruments use a default sound`)
+        instruments.set(parseInt(index), { name, transpose: 0, config: this.createConfig() })
+        continue
+      }
+
+      const sequence = (macroType: number) => {
+        const id = parseInt(columns[macroType])
+        return id >= 0 ? macros.get(`${macroType}:${id}`) : undefined
+      }
+      instruments.set(parseInt(index), {
+        name,
+        transpose: 0,
+        config: this.famiTrackerInstrument(name, sequence, frameRate, report),
+      })
+    }
+
+    const frames = orders.map(order =>
+      Array.from({ length: rowCount }, (_, row) =>
+        channels.map((_, channel) => this.famiTrackerCell(patterns.get(order[channel])?.get(row)?.[channel], channel, report))
+      )
+    )
+
+    return { format: 'famitracker', title, speed, tempo, channels, frames, restart: null, instruments }
+  }
+
+  /**
+   * A 2A03 instrument's macros carried over as instrument macros; the volume macro also
+   * becomes an ADSR envelope and the first duty the pulse width, for when a macro is removed
+   */
+  private static famiTrackerInstrument(
+    name: string,
+    sequence: (type: number) => FamiTrackerMacro | undefined,
+    frameRate: number,
+    report: Report
+  ): InstrumentConfig {
+    const config = this.createConfig()
+    const macros: InstrumentMacros = { rate: frameRate === 50 ? 50 : 60 }
+
+    const volume = sequence(MACRO_VOLUME)
+    if (volume && volume.values.length > 0) {
+      const { values, loop, release } = volume
+      const hold = release >= 0 ? release : loop >= 0 ? loop : values.length - 1
+      const held = values.slice(loop >= 0 && loop <= hold ? loop : hold, hold + 1)
+      // Without a release point the note stops as soon as it is released
+      const points = values.slice(0, release >= 0 ? undefined : hold + 1).map((v, i): [number, number] => [i / frameRate, v / 15])
+      config.adsr = this.envelopeToAdsr(points, hold, held.reduce((sum, v) => sum + v, 0) / held.length / 15)
+      macros.volume = this.famiTrackerMacro(volume, 'volume')
+    }
+
+    const duty = sequence(MACRO_DUTY)
+    if (duty && duty.values.length > 0) {
+      const width = DUTY_CYCLES[duty.values[0] & 3]
+      config.waveform = width === 0.5 ? 'square' : 'pulse'
+      config.pulseWidth = width
+      if (new Set(duty.values).size > 1) macros.duty = this.famiTrackerMacro(duty, 'duty')
+    }
+
+    const arpeggio = sequence(MACRO_ARPEGGIO)
+    if (arpeggio && arpeggio.values.some(v => v !== 0)) {
+      if (arpeggio.setting !== 0) {
+        report(`"${name}" has a fixed or relative arpeggio macro; it is not imported`)
+      } else {
+        macros.arpeggio = this.famiTrackerMacro(arpeggio, 'arpeggio')
+      }
+    }
+
+    // 2A03 pitch steps are period units: a positive step lowers the note by about 1/16 semitone
+    const pitch = sequence(MACRO_PITCH)
+    if (pitch && pitch.values.some(v => v !== 0)) {
+      if (pitch.setting !== 0) {
+        report(`"${name}" has an absolute pitch macro; it is not imported`)
+      } else {
+        macros.pitch = this.famiTrackerMacro({ ...pitch, values: pitch.values.map(v => -v) }, 'pitch')
+      }
+    }
+    if (sequence(MACRO_HI_PITCH)) {
+      report(`"${name}" has a hi-pitch macro; it is not imported`)
+    }
+
+    if (macros.volume || macros.arpeggio || macros.pitch || macros.duty) config.macros = macros
+    return config
+  }
+
+  /**
+   * FamiTracker sequence as an instrument macro, held to the macro's range and length
+   */
+  private static famiTrackerMacro(macro: FamiTrackerMacro, type: MacroType): MacroSequence {
+    const { min, max } = getMacroInfo(type)
+    const values = macro.values.slice(0, MAX_MACRO_LENGTH).map(v => Math.max(min, Math.min(max, v)))
+    return {
+      values,
+      loop: macro.loop < values.length ? macro.loop : -1,
+      release: macro.release < values.length ? macro.release : -1,
+    }
+  }
+
+  private static famiTrackerCell(text: string | undefined, channel: number, report: Report): TrackerCell {
+    const cell: TrackerCell = { note: null, instrument: null, volume: null, effects: [] }
+    if (!text) return cell
+
+    const [note = '...', instrument = '..', volume = '.', ...effects] = text.split(/\s+/)
+
+    if (note === '---' || note === '===') {
+      cell.note = 'off'
+    } else if (note !== '...') {
+      if (channel === FAMITRACKER_DPCM) {
+        report('DPCM sample notes are not imported')
+      } else if (channel === FAMITRACKER_NOISE) {
+        cell.note = this.noiseDrum(parseInt(note[0], 16))
+      } else {
+        const semitone = NOTE_NAMES.indexOf(note.slice(0, 2))
+        if (semitone >= 0) cell.note = (parseInt(note[2]) + 1) * 12 + semitone
+      }
+    }
+
+    if (instrument !== '..') cell.instrument = parseInt(instrument, 16)
+    if (volume !== '.') cell.volume = parseInt(volume, 16) / 15
+
+    for (const token of effects) {
+      if (token === '...') continue
+      const effect = this.famiTrackerEffect(token[0], parseInt(token.slice(1), 16))
+      if (effect) cell.effects.push(effect)
+    }
+
+    return cell
+  }
+
+  private static famiTrackerEffect(code: string, param: number): RowEffect | null {
+    switch (code) {
+      case '0': return param ? this.noteEffect('arpeggio', param) : null
+      case '1': return this.noteEffect('slideUp', param)
+      case '2': return this.noteEffect('slideDown', param)
+      case '3': return this.noteEffect('portamento', param)
+      case 'A': return this.noteEffect('volumeSlide', param)
+      case 'B': return { kind: 'jump', order: param }
+      case 'C': return { kind: 'halt' }
+      case 'D': return { kind: 'break', row: param }
+      case 'F': return param < 0x20 ? { kind: 'speed', speed: Math.max(1, param) } : { kind: 'speed', tempo: param }
+      case 'G': return this.noteEffect('delay', param)
+      case 'S': return this.noteEffect('cut', param)
+      case 'V': return this.noteEffect('duty', param & 3)
+      default: return { kind: 'unsupported', name: FAMITRACKER_EFFECT_NAMES[code] ?? 'Effect', code: `${code}xx` }
+    }
+  }
+
+  /**
+   * General MIDI drum for a noise note: low periods are kicks, then snares, then hi-hats
+   */
+  private static noiseDrum(noise: number): number {
+    if (noise >= 0xA) return 42
+    if (noise >= 0x5) return 38
+    return 36
+  }
+
+  /**
+   * ProTracker module: 31 samples, 64-row patterns of 4-byte cells
+   */
+  private static parseMod(bytes: Uint8Array, report: Report): TrackerSong {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const channelCount = this.modChannelCount(this.readString(bytes, 1080, 4))!
+    const songLength = bytes[950]
+    const patternCount = Math.max(...bytes.subarray(952, 1080)) + 1
+    const patternSize = 64 * channelCount * 4
+
+    const instruments = new Map<number, TrackerInstrument>()
+    let sampleOffset = 1084 + patternCount * patternSize
+    for (let i = 0; i < 31; i++) {
+      const header = 20 + i * 30
+      const length = view.getUint16(header + 22) * 2
+      const loopStart = view.getUint16(header + 26) * 2
+      const loopLength = view.getUint16(header + 28) * 2
+      const data = new Float32Array(Math.max(0, Math.min(length, bytes.length - sampleOffset)))
+      for (let s = 0; s < data.length; s++) {
+        data[s] = ((bytes[sampleOffset + s] << 24) >> 24) / 128
+      }
+      sampleOffset += length
+
+      if (length === 0) continue
+      instruments.set(i + 1, this.sampledInstrument(
+        this.readString(bytes, header, 22).trim() || `Sample ${i + 1}`,
+        Math.min(64, bytes[header + 25]) / 64,
+        data,
+        loopLength > 2 ? [loopStart, loopStart + loopLength] : null,
+        MOD_RATE,
+        0,
+        report
+      ))
+    }
+
+    const channels = Array.from({ length: channelCount }, (_, i) => ({ name: `Channel ${i + 1}`, drums: false }))
+    const frames = Array.from(bytes.subarray(952, 952 + songLength), pattern =>
+      Array.from({ length: 64 }, (_, row) =>
+        channels.map((_, channel) => {
+          const offset = 1084 + pattern * patternSize + (row * channelCount + channel) * 4
+          const period = ((bytes[offset] & 0x0F) << 8) | bytes[offset + 1]
+          const sample = (bytes[offset] & 0xF0) | (bytes[offset + 2] >> 4)
+          const cell: TrackerCell = {
+            // C-2 (period 428) plays samples at the rate that makes a 32-byte loop middle C
+            note: period > 0 ? 60 + Math.round(12 * Math.log2(428 / period)) : null,
+            instrument: sample > 0 ? sample : null,
+            volume: null,
+            effects: [],
+          }
+          this.addModuleEffect(cell, (bytes[offset + 2] & 0x0F).toString(16).toUpperCase(), bytes[offset + 3])
+          return cell
+        })
+      )
+    )
+
+    return {
+      format: 'mod',
+      title: this.readString(bytes, 0, 20).trim(),
+      speed: 6,
+      tempo: 125,
+      channels,
+      frames,
+      restart: null,
+      instruments,
+    }
+  }
+
+  /**
+   * FastTracker 2 module: packed patterns and multi-sample instruments with volume envelopes
+   */
+  private static parseXm(bytes: Uint8Array, report: Report): TrackerSong {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const songLength = view.getUint16(64, true)
+    const restart = view.getUint16(66, true)
+    const channelCount = view.getUint16(68, true)
+    const patternCount = view.getUint16(70, true)
+    const instrumentCount = view.getUint16(72, true)
+    const speed = view.getUint16(76, true)
+    const tempo = view.getUint16(78, true)
+    const channels = Array.from({ length: channelCount }, (_, i) => ({ name: `Channel ${i + 1}`, drums: false }))
+
+    let offset = 60 + view.getUint32(60, true)
+    const patterns: TrackerCell[][][] = []
+    for (let p = 0; p < patternCount && offset + 9 <= bytes.length; p++) {
+      const headerLength = view.getUint32(offset, true)
+      const rowCount = view.getUint16(offset + 5, true)
+      const dataSize = view.getUint16(offset + 7, true)
+      let position = offset + headerLength
+      const end = position + dataSize
+
+      // An empty pattern has no data at all
+      const rows = Array.from({ length: rowCount }, () => channels.map((): TrackerCell => ({
+        note: null, instrument: null, volume: null, effects: [],
+      })))
+      for (let row = 0; row < rowCount && position < end; row++) {
+        for (let channel = 0; channel < channelCount && position < end; channel++) {
+          const first = bytes[position]
+          const packed = (first & 0x80) !== 0
+          const flags = packed ? first : 0x1F
+          if (packed) position++
+
+          const note = flags & 0x01 ? bytes[position++] : 0
+          const instrument = flags & 0x02 ? bytes[position++] : 0
+          const volume = flags & 0x04 ? bytes[position++] : 0
+          const effect = flags & 0x08 ? bytes[position++] : 0
+          const param = flags & 0x10 ? bytes[position++] : 0
+
+          const cell = rows[row][channel]
+          // Note 49 is C-4, which plays samples at the rate that makes a 32-byte loop middle C
+          if (note === 97) cell.note = 'off'
+          else if (note > 0 && note < 97) cell.note = note + 11
+          if (instrument > 0) cell.instrument = instrument
+          if (volume >= 0x10 && volume <= 0x50) cell.volume = (volume - 0x10) / 64
+          else if (volume > 0x50) report('Volume column effects are not imported')
+          this.addModuleEffect(cell, effect.toString(36).toUpperCase(), param)
+        }
+      }
+      patterns.push(rows)
+      offset = end
+    }
+
+    const instruments = new Map<number, TrackerInstrument>()
+    for (let i = 0; i < instrumentCount && offset + 29 <= bytes.length; i++) {
+      const instrumentStart = offset
+      const headerSize = view.getUint32(offset, true)
+      const name = this.readString(bytes, offset + 4, 22).trim() || `Instrument ${i + 1}`
+      const sampleCount = view.getUint16(offset + 27, true)
+      offset += headerSize
+      if (sampleCount === 0) continue
+      if (sampleCount > 1) report(`"${name}" has ${sampleCount} samples; the first is used`)
+
+      const sampleHeaderSize = view.getUint32(instrumentStart + 29, true)
+      const samples = Array.from({ length: sampleCount }, (_, s) => {
+        const header = offset + s * sampleHeaderSize
+        return {
+          length: view.getUint32(header, true),
+          loopStart: view.getUint32(header + 4, true),
+          loopLength: view.getUint32(header + 8, true),
+          volume: Math.min(64, bytes[header + 12]) / 64,
+          type: bytes[header + 14],
+          relativeNote: view.getInt8(header + 16),
+        }
+      })
+      offset += sampleCount * sampleHeaderSize
+
+      const sample = samples[0]
+      const wide = (sample.type & 0x10) !== 0
+      const data = this.decodeDeltas(view, offset, Math.min(sample.length, bytes.length - offset), wide)
+      offset += samples.reduce((sum, s) => sum + s.length, 0)
+
+      const bytesPerFrame = wide ? 2 : 1
+      const loop: [number, number] | null = (sample.type & 0x03) && sample.loopLength > 0
+        ? [sample.loopStart / bytesPerFrame, (sample.loopStart + sample.loopLength) / bytesPerFrame]
+        : null
+      const instrument = this.sampledInstrument(name, sample.volume, data, loop, XM_RATE, sample.relativeNote, report)
+
+      // Volume envelope: 12 points of (tick, 0-64), ticks last 2.5 / BPM seconds
+      const envelopeType = bytes[instrumentStart + 233]
+      const pointCount = Math.min(12, bytes[instrumentStart + 225])
+      if (envelopeType & 0x01 && pointCount > 0) {
+        const points = Array.from({ length: pointCount }, (_, p): [number, number] => [
+          (view.getUint16(instrumentStart + 129 + p * 4, true) * 2.5) / Math.max(1, tempo),
+          Math.min(64, view.getUint16(instrumentStart + 131 + p * 4, true)) / 64,
+        ])
+        const hold = envelopeType & 0x02 ? Math.min(pointCount - 1, bytes[instrumentStart + 227]) : pointCount - 1
+        instrument.config.adsr = this.envelopeToAdsr(points, hold, points[hold][1])
+      }
+
+      instruments.set(i + 1, instrument)
+    }
+
+    const frames = Array.from(bytes.subarray(80, 80 + songLength), p => patterns[p] ?? [])
+      .filter(rows => rows.length > 0)
+
+    return {
+      format: 'xm',
+      title: this.readString(bytes, 17, 20).trim(),
+      speed: Math.max(1, speed),
+      tempo,
+      channels,
+      frames,
+      restart: restart < songLength ? restart : null,
+      instruments,
+    }
+  }
+
+  /**
+   * Effect column shared by MOD and XM (XM adds letters after F)
+   */
+  private static addModuleEffect(cell: TrackerCell, code: string, param: number): void {
+    if (code === '0' && param === 0) return
+
+    switch (code) {
+      case '0': cell.effects.push(this.noteEffect('arpeggio', param)); break
+      case '1': cell.effects.push(this.noteEffect('slideUp', param)); break
+      case '2': cell.effects.push(this.noteEffect('slideDown', param)); break
+      case '3': cell.effects.push(this.noteEffect('portamento', param)); break
+      case 'A': cell.effects.push(this.noteEffect('volumeSlide', param)); break
+      case 'B': cell.effects.push({ kind: 'jump', order: param }); break
+      case 'C': cell.volume = Math.min(64, param) / 64; break
+      // Decimal row number written as hex digits
+      case 'D': cell.effects.push({ kind: 'break', row: (param >> 4) * 10 + (param & 0x0F) }); break
+      case 'E': {
+        const sub = (param >> 4).toString(16).toUpperCase()
+        if (sub === 'C') cell.effects.push(this.noteEffect('cut', param & 0x0F))
+        else if (sub === 'D') cell.effects.push(this.noteEffect('delay', param & 0x0F))
+        else cell.effects.push({ kind: 'unsupported', name: EXTENDED_EFFECT_NAMES[sub] ?? 'Extended effect', code: `E${sub}x` })
+        break
+      }
+      case 'F':
+        if (param > 0) cell.effects.push(param < 0x20 ? { kind: 'speed', speed: param } : { kind: 'speed', tempo: param })
+        break
+      default:
+        cell.effects.push({ kind: 'unsupported', name: MODULE_EFFECT_NAMES[code] ?? 'Effect', code: `${code}xx` })
+    }
+  }
+
+  /**
+   * Closest chip instrument to a sample: single-cycle loops keep their wave shape and pitch,
+   * recordings become square waves with the sample's length as decay
+   */
+  private static sampledInstrument(
+    name: string,
+    volume: number,
+    data: Float32Array,
+    loop: [number, number] | null,
+    rate: number,
+    relativeNote: number,
+    report: Report
+  ): TrackerInstrument {
+    const config = this.createConfig()
+    let transpose = relativeNote
+
+    const loopLength = loop ? loop[1] - loop[0] : 0
+    if (loop && loopLength >= 2 && loopLength <= MAX_CYCLE_LENGTH && loop[1] <= data.length) {
+      Object.assign(config, this.guessWaveform(data.subarray(loop[0], loop[1])))
+      transpose += Math.round(12 * Math.log2(rate / loopLength / MIDDLE_C))
+      config.adsr = { attack: 0.005, decay: 0.05, sustain: 1, release: 0.05 }
+    } else {
+      report(`"${name}" is a recorded sample and plays as a square wave`)
+      config.adsr = loop
+        ? { attack: 0.005, decay: 0.05, sustain: 1, release: 0.1 }
+        : { attack: 0.005, decay: Math.min(2, Math.max(0.01, data.length / rate)), sustain: 0, release: 0.05 }
+    }
+
+    return { name, volume, transpose, config }
+  }
+
+  /**
+   * Waveform nearest one cycle of a sample: mostly extremes is a pulse,
+   * one big jump per cycle a sawtooth, otherwise a triangle
+   */
+  private static guessWaveform(cycle: Float32Array): Pick<InstrumentConfig, 'waveform' | 'pulseWidth'> {
+    let min = Infinity
+    let max = -Infinity
+    for (const v of cycle) {
+      min = Math.min(min, v)
+      max = Math.max(max, v)
+    }
+    const range = max - min
+    if (range === 0) return { waveform: 'square', pulseWidth: 0.5 }
+
+    const middle = (max + min) / 2
+    const extremes = cycle.filter(v => Math.abs(v - middle) > range * 0.4).length / cycle.length
+    if (extremes > 0.8) {
+      // An inverted pulse sounds the same, so widths past 50% fold back
+      const high = cycle.filter(v => v > middle).length / cycle.length
+      const width = Math.min(high, 1 - high)
+      return Math.abs(width - 0.5) < 0.07 ? { waveform: 'square', pulseWidth: 0.5 } : { waveform: 'pulse', pulseWidth: width }
+    }
+
+    let jump = 0
+    for (let i = 0; i < cycle.length; i++) {
+      jump = Math.max(jump, Math.abs(cycle[i] - cycle[(i + 1) % cycle.length]))
+    }
+    return { waveform: jump > range * 0.5 ? 'sawtooth' : 'triangle', pulseWidth: 0.5 }
+  }
+
+  /**
+   * ADSR closest to an envelope of (seconds, level) points that holds at one point while the note is down
+   */
+  private static envelopeToAdsr(points: Array<[number, number]>, hold: number, sustainLevel: number): ADSRParams {
+    const clampTime = (t: number) => Math.max(0.001, Math.min(2, t))
+    let peak = 0
+    for (let i = 1; i <= hold; i++) {
+      if (points[i][1] > points[peak][1]) peak = i
+    }
+
+    const peakLevel = points[peak][1]
+    if (peakLevel === 0) return { ...DEFAULT_INSTRUMENT.adsr }
+
+    let settled = peak
+    while (settled < hold && points[settled][1] > sustainLevel + 1e-6) settled++
+
+    const last = points[points.length - 1][0]
+    return {
+      attack: clampTime(points[peak][0]),
+      decay: clampTime(points[settled][0] - points[peak][0]),
+      sustain: Math.min(1, sustainLevel / peakLevel),
+      release: clampTime(hold < points.length - 1 ? last - points[hold][0] : 0.02),
+    }
+  }
+
+  /**
+   * XM sample data is stored as differences between neighbouring frames
+   */
+  private static decodeDeltas(view: DataView, offset: number, length: number, wide: boolean): Float32Array {
+    const data = new Float32Array(Math.max(0, wide ? Math.floor(length / 2) : length))
+    let value = 0
+    for (let i = 0; i < data.length; i++) {
+      if (wide) {
+        value = (value + view.getInt16(offset + i * 2, true)) << 16 >> 16
+        data[i] = value / 32768
+      } else {
+        value = (value + view.getInt8(offset + i)) << 24 >> 24
+        data[i] = value / 128
+      }
+    }
+    return data
+  }
+
+  /**
+   * Channels of a MOD from its signature, or 0 when the signature is unknown
+   */
+  private static modChannelCount(signature: string): number {
+    if (['M.K.', 'M!K!', 'FLT4', '4CHN'].includes(signature)) return 4
+    if (['FLT8', 'OCTA', 'CD81'].includes(signature)) return 8
+    const digits = /^(\d)CHN$/.exec(signature) ?? /^(\d\d)CH$/.exec(signature)
+    return digits ? parseInt(digits[1]) : 0
+  }
+
+  private static noteEffect(type: NoteEffectType, param: number): RowEffect {
+    return { kind: 'note', effect: { type, param: clampEffectParam(type, param) } }
+  }
+
+  private static createConfig(): InstrumentConfig {
+    return {
+      ...DEFAULT_INSTRUMENT,
+      adsr: { ...DEFAULT_INSTRUMENT.adsr },
+      effects: { ...DEFAULT_EFFECTS, arpeggioPattern: [...DEFAULT_EFFECTS.arpeggioPattern] },
+    }
+  }
+
+  private static quoted(line: string): string {
+    return /"(.*)"/.exec(line)?.[1] ?? ''
+  }
+
+  private static readString(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length)).replace(/\0.*$/, '')
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Minimal ZIP archive writer
+ * Files are stored uncompressed (method 0); WAV data barely deflates anyway
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+export class ZipWriter {
+  private static crcTable: Uint32Array | null = null
+
+  /**
+   * Bundle files into a .zip blob
+   */
+  static create(entries: ZipEntry[], date = new Date()): Blob {
+    const encoder = new TextEncoder()
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+    const dosDate = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+
+    const parts: Uint8Array[] = []
+    const centralDirectory: Uint8Array[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+      const name = encoder.encode(entry.name)
+      const crc = this.crc32(entry.data)
+
+      // Local file header
+      const local = new Uint8Array(30 + name.length)
+      const localView = new DataView(local.buffer)
+      localView.setUint32(0, 0x04034B50, true)
+      localView.setUint16(4, 20, true)                   // Version needed (2.0)
+      localView.setUint16(6, 0x0800, true)               // Flags: UTF-8 names
+      localView.setUint16(8, 0, true)                    // Method: stored
+      localView.setUint16(10, dosTime, true)
+      localView.setUint16(12, dosDate, true)
+      localView.setUint32(14, crc, true)
+      localView.setUint32(18, entry.data.length, true)   // Compressed size
+      localView.setUint32(22, entry.data.length, true)   // Uncompressed size
+      localView.setUint16(26, name.length, true)
+      localView.setUint16(28, 0, true)                   // Extra field length
+      local.set(name, 30)
+
+      // Central directory record pointing back at the local header
+      const central = new Uint8Array(46 + name.length)
+      const centralView = new DataView(central.buffer)
+      centralView.setUint32(0, 0x02014B50, true)
+      centralView.setUint16(4, 20, true)                 // Version made by
+      centralView.setUint16(6, 20, true)                 // Version needed
+      centralView.setUint16(8, 0x0800, true)
+      centralView.setUint16(10, 0, true)
+      centralView.setUint16(12, dosTime, true)
+      centralView.setUint16(14, dosDate, true)
+      centralView.setUint32(16, crc, true)
+      centralView.setUint32(20, entry.data.length, true)
+      centralView.setUint32(24, entry.data.length, true)
+      centralView.setUint16(28, name.length, true)
+      centralView.setUint32(42, offset, true)            // Local header offset
+      central.set(name, 46)
+
+      parts.push(local, entry.data)
+      centralDirectory.push(central)
+      offset += local.length + entry.data.length
+    }
+
+    const centralSize = centralDirectory.reduce((sum, c) => sum + c.length, 0)
+
+    // End of central directory record
+    const end = new Uint8Array(22)
+    const endView = new DataView(end.buffer)
+    endView.setUint32(0, 0x06054B50, true)
+    endView.setUint16(8, entries.length, true)           // Entries on this disk
+    endView.setUint16(10, entries.length, true)          // Total entries
+    endView.setUint32(12, centralSize, true)
+    endView.setUint32(16, offset, true)                  // Central directory offset
+
+    return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' })
+  }
+
+  /**
+   * ZIP CRC-32 (reflected polynomial 0xEDB88320)
+   */
+  private static crc32(bytes: Uint8Array): number {
+    if (!this.crcTable) {
+      this.crcTable = new Uint32Array(256)
+      for (let i = 0; i < 256; i++) {
+        let r = i
+        for (let j = 0; j < 8; j++) {
+          r = r & 1 ? (r >>> 1) ^ 0xEDB88320 : r >>> 1
+        }
+        this.crcTable[i] = r >>> 0
+      }
+    }
+
+    let crc = 0xFFFFFFFF
+    for (let i = 0; i < bytes.length; i++) {
+      crc = (crc >>> 8) ^ this.crcTable[(crc ^ bytes[i]) & 0xFF]
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0
+  }
+}
@@ -4,6 +4,10 @@ import { useProjectStore } from '@/stores/useProjectStore'
 import { useInstrumentStore } from '@/stores/useInstrumentStore'
 import { useUIStore } from '@/stores/useUIStore'
 import type { ProjectTemplate } from '@/types/project'
+import type { Note } from '@/types/note'
+import { MidiImporter, type MidiFileData } from '@/audio/MidiImporter'
+import { TrackerImporter, type TrackerFileData } from '@/audio/TrackerImporter'
+import type { InstrumentConfig } from '@/types/instrument'
 
 const STORAGE_KEY = 'pixelmusic_autosave'
 const STORAGE_VERSION = '1.0'
@@ -13,7 +17,10 @@ export function useAutosave() {
   const instrumentStore = useInstrumentStore()
   const uiStore = useUIStore()
 
-  const { tracks, tempo, name, loopStart, loopEnd, loopEnabled, timeSignature } = storeToRefs(projectStore)
+  const {
+    tracks, tempo, name, introLength, loopStart, loopEnd, loopEnabled, timeSignature,
+    patterns, currentPatternId, arrangement, arrangementLoop, songMode, drumKit, consoleProfile,
+  } = storeToRefs(projectStore)
   const { instruments, selectedTrackId } = storeToRefs(instrumentStore)
   const { startOctave, visibleOctaves, gridZoom, mode, showSidebar } = storeToRefs(uiStore)
 
@@ -59,14 +66,8 @@ export function useAutosave() {
         projectStore.loadFromJSON(state.project)
       }
 
-      // Load instruments
-      if (state.instruments) {
-        for (const [trackId, config] of Object.entries(state.instruments)) {
-          if (instruments.value[trackId]) {
-            instruments.value[trackId] = config as typeof instruments.value[string]
-          }
-        }
-      }
+      // Load instruments (tracks without a saved config get a default one)
+      instrumentStore.syncWithTracks(tracks.value, state.instruments ?? {})
 
       // Load UI settings
       if (state.ui) {
@@ -122,7 +123,8 @@ export function useAutosave() {
     projectStore.newProject()
 
     // Reset instrument settings to defaults
-    instrumentStore.selectTrack('lead')
+    instrumentStore.resetAllInstruments(tracks.value)
+    instrumentStore.selectTrack(tracks.value[0].id)
   }
 
   /**
@@ -150,11 +152,7 @@ export function useAutosave() {
       projectStore.loadFromJSON(template.project)
 
       // Load instruments
-      for (const [trackId, config] of Object.entries(template.instruments)) {
-        if (instruments.value[trackId]) {
-          instruments.value[trackId] = config as typeof instruments.value[string]
-        }
-      }
+      instrumentStore.syncWithTracks(tracks.value, template.instruments)
 
       // Save the imported state
       saveState()
@@ -203,11 +201,183 @@ export function useAutosave() {
     })
   }
 
+  /**
+   * Parse a MIDI file so its tracks/channels can be mapped onto project tracks
+   */
+  async function loadMidiFromFile(file: File): Promise<MidiFileData | null> {
+    try {
+      return MidiImporter.parse(await file.arrayBuffer())
+    } catch (e) {
+      console.error('Failed to parse MIDI file:', e)
+      return null
+    }
+  }
+
+  /**
+   * Suggest a mapping of MIDI sources to project tracks
+   * Channel 10 goes to the drums track, other sources fill synth tracks in order
+   */
+  function getDefaultMidiMapping(data: MidiFileData): Record<string, string | null> {
+    const mapping: Record<string, string | null> = {}
+    const synthTracks = tracks.value.filter(t => t.type === 'synth')
+    const drumTrack = tracks.value.find(t => t.type === 'drums')
+    let nextSynth = 0
+
+    for (const source of data.sources) {
+      if (MidiImporter.isDrumSource(source)) {
+        mapping[source.key] = drumTrack?.id ?? null
+      } else {
+        mapping[source.key] = synthTracks[nextSynth]?.id ?? null
+        nextSynth++
+      }
+    }
+
+    return mapping
+  }
+
+  /**
+   * Import parsed MIDI data into the project
+   * Mapped tracks are replaced with the quantized notes; tempo and time signature come from meta events
+   */
+  function importMidi(data: MidiFileData, mapping: Record<string, string | null>): boolean {
+    try {
+      const notesByTrack = new Map<string, Array<Omit<Note, 'id'>>>()
+
+      for (const source of data.sources) {
+        const trackId = mapping[source.key]
+        if (!trackId || !tracks.value.some(t => t.id === trackId)) continue
+
+        const existing = notesByTrack.get(trackId) ?? []
+        notesByTrack.set(trackId, existing.concat(MidiImporter.quantizeNotes(source.notes, data.ppq)))
+      }
+
+      if (notesByTrack.size === 0) return false
+
+      if (data.tempo !== null) {
+        projectStore.setTempo(data.tempo)
+      }
+      if (data.timeSignature) {
+        projectStore.setTimeSignature(data.timeSignature)
+      }
+
+      let songEnd = 0
+      for (const [trackId, notes] of notesByTrack) {
+        // Sources merged onto one track may overlap on the same cell
+        const unique = notes.filter((n, i) =>
+          notes.findIndex(o => o.pitch === n.pitch && o.startBeat === n.startBeat) === i
+        )
+        projectStore.setTrackNotes(trackId, unique)
+        for (const note of unique) {
+          songEnd = Math.max(songEnd, note.startBeat + note.duration)
+        }
+      }
+
+      // Loop the whole imported song, rounded up to a full bar
+      const barSteps = projectStore.stepsPerBar
+      projectStore.setLoopRegion(0, Math.max(barSteps, Math.ceil(songEnd / barSteps) * barSteps))
+
+      saveState()
+      return true
+    } catch (e) {
+      console.error('Failed to import MIDI:', e)
+      return false
+    }
+  }
+
+  /**
+   * Parse a FamiTracker text export or MOD/XM module so its channels can be mapped onto project tracks
+   */
+  async function loadTrackerFromFile(file: File): Promise<TrackerFileData | null> {
+    try {
+      return TrackerImporter.parse(await file.arrayBuffer())
+    } catch (e) {
+      console.error('Failed to parse tracker module:', e)
+      return null
+    }
+  }
+
+  /**
+   * Suggest a mapping of tracker channels to project tracks
+   * The noise channel goes to the drums track, other channels fill synth tracks in order
+   */
+  function getDefaultTrackerMapping(data: TrackerFileData): Record<string, string | null> {
+    const mapping: Record<string, string | null> = {}
+    const synthTracks = tracks.value.filter(t => t.type === 'synth')
+    const drumTrack = tracks.value.find(t => t.type === 'drums')
+    let nextSynth = 0
+
+    for (const source of data.sources) {
+      if (TrackerImporter.isDrumSource(source)) {
+        mapping[source.key] = drumTrack?.id ?? null
+      } else {
+        mapping[source.key] = synthTracks[nextSynth]?.id ?? null
+        nextSynth++
+      }
+    }
+
+    return mapping
+  }
+
+  /**
+   * Import a parsed tracker module into the project
+   * Mapped tracks get the channel's notes and synth tracks its closest instrument;
+   * the module's loop becomes the loop region, with anything before it as the intro
+   */
+  function importTracker(data: TrackerFileData, mapping: Record<string, string | null>): boolean {
+    try {
+      const notesByTrack = new Map<string, Array<Omit<Note, 'id'>>>()
+      const sounds: Record<string, InstrumentConfig> = {}
+
+      for (const source of data.sources) {
+        const track = tracks.value.find(t => t.id === mapping[source.key])
+        if (!track) continue
+
+        notesByTrack.set(track.id, (notesByTrack.get(track.id) ?? []).concat(source.notes))
+        // The first channel mapped onto a track decides its sound
+        if (track.type === 'synth' && source.instrument && !sounds[track.id]) {
+          sounds[track.id] = source.instrument
+        }
+      }
+
+      if (notesByTrack.size === 0) return false
+
+      projectStore.setTempo(data.tempo)
+
+      let songEnd = 0
+      for (const [trackId, notes] of notesByTrack) {
+        // Channels merged onto one track may overlap on the same cell
+        const unique = notes.filter((n, i) =>
+          notes.findIndex(o => o.pitch === n.pitch && o.startBeat === n.startBeat) === i
+        )
+        projectStore.setTrackNotes(trackId, unique)
+        for (const note of unique) {
+          songEnd = Math.max(songEnd, note.startBeat + note.duration)
+        }
+      }
+      instrumentStore.syncWithTracks(tracks.value, sounds)
+
+      // Loop to the end of the song, rounded up to a full bar
+      const barSteps = projectStore.stepsPerBar
+      const loopStart = data.loopStart !== null && data.loopStart < songEnd ? data.loopStart : 0
+      projectStore.setLoopRegion(loopStart, Math.max(barSteps, Math.ceil(songEnd / barSteps) * barSteps))
+      projectStore.setIntroLength(loopStart)
+
+      saveState()
+      return true
+    } catch (e) {
+      console.error('Failed to import tracker module:', e)
+      return false
+    }
+  }
+
   // Set up auto-save watchers
   function setupAutosave(): void {
     // Watch for project changes
     watch(
-      [tracks, tempo, name, loopStart, loopEnd, loopEnabled, timeSignature],
+      [
+        tracks, tempo, name, introLength, loopStart, loopEnd, loopEnabled, timeSignature,
+        patterns, currentPatternId, arrangement, arrangementLoop, songMode, drumKit, consoleProfile,
+      ],
       () => {
         saveState()
       },
@@ -248,6 +418,12 @@ export function useAutosave() {
     importTemplate,
     downloadTemplate,
     loadTemplateFromFile,
+    loadMidiFromFile,
+    getDefaultMidiMapping,
+    importMidi,
+    loadTrackerFromFile,
+    getDefaultTrackerMapping,
+    importTracker,
     initialize,
   }
 }
@@ -1,6 +1,7 @@
 import { useProjectStore } from '@/stores/useProjectStore'
 import { useInstrumentStore } from '@/stores/useInstrumentStore'
 import { useUIStore } from '@/stores/useUIStore'
+import type { NoteEffect } from '@/types/note'
 
 export function useClipboard() {
   const projectStore = useProjectStore()
@@ -21,6 +22,7 @@ export function useClipboard() {
       startBeat: number
       duration: number
       velocity: number
+      effect?: NoteEffect
     }> = []
     let minStartBeat = Infinity
     let minPitch = Infinity
@@ -34,6 +36,7 @@ export function useClipboard() {
             startBeat: note.startBeat,
             duration: note.duration,
             velocity: note.velocity,
+            effect: note.effect && { ...note.effect },
           })
           minStartBeat = Math.min(minStartBeat, note.startBeat)
           minPitch = Math.min(minPitch, note.pitch)
@@ -97,7 +100,7 @@ export function useClipboard() {
     }
 
     // Calculate offsets
-    const baseBeat = targetBeat ?? projectStore.loopStart
+    const baseBeat = targetBeat ?? projectStore.introStart
     const beatOffset = baseBeat - clipboardData.baseStartBeat
 
     const pitchOffset = targetPitch !== undefined
@@ -110,9 +113,9 @@ export function useClipboard() {
       const newStartBeat = clipNote.startBeat + beatOffset
       const newPitch = clipNote.pitch + pitchOffset
 
-      // Skip if before loop start (left boundary check only)
+      // Skip if before the intro / loop start (left boundary check only)
       // Right boundary is handled by auto-expand in SequencerGrid
-      if (newStartBeat < projectStore.loopStart) {
+      if (newStartBeat < projectStore.introStart) {
         continue
       }
 
@@ -127,6 +130,7 @@ export function useClipboard() {
           startBeat: newStartBeat,
           duration: clipNote.duration,
           velocity: clipNote.velocity,
+          effect: clipNote.effect && { ...clipNote.effect },
         })
         if (noteId) {
           newNoteIds.push(noteId)
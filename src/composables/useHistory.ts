@@ -1,18 +1,29 @@
 import { ref, watch } from 'vue'
 import { useProjectStore } from '@/stores/useProjectStore'
-import type { Track } from '@/types/project'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import type { Pattern, Track } from '@/types/project'
+import type { InstrumentConfig } from '@/types/instrument'
+import type { DrumKit } from '@/types/drumKit'
 
 interface HistoryState {
   tracks: Track[]
+  instruments: Record<string, InstrumentConfig>   // Restores the sound of tracks brought back by undo
   tempo: number
+  introLength: number
   loopStart: number
   loopEnd: number
+  patterns: Pattern[]
+  currentPatternId: string
+  arrangement: string[]
+  arrangementLoop: number
+  drumKit: DrumKit   // Pad notes move with their pads, so the kit is restored with the notes
 }
 
 const MAX_HISTORY = 50
 
 export function useHistory() {
   const projectStore = useProjectStore()
+  const instrumentStore = useInstrumentStore()
 
   const undoStack = ref<HistoryState[]>([])
   const redoStack = ref<HistoryState[]>([])
@@ -24,9 +35,16 @@ export function useHistory() {
   function getSnapshot(): HistoryState {
     return {
       tracks: JSON.parse(JSON.stringify(projectStore.tracks)),
+      instruments: JSON.parse(JSON.stringify(instrumentStore.instruments)),
       tempo: projectStore.tempo,
+      introLength: projectStore.introLength,
       loopStart: projectStore.loopStart,
       loopEnd: projectStore.loopEnd,
+      patterns: JSON.parse(JSON.stringify(projectStore.resolvedPatterns)),
+      currentPatternId: projectStore.currentPatternId,
+      arrangement: [...projectStore.arrangement],
+      arrangementLoop: projectStore.arrangementLoop,
+      drumKit: JSON.parse(JSON.stringify(projectStore.drumKit)),
     }
   }
 
@@ -40,8 +58,13 @@ export function useHistory() {
       ...t,
       notes: t.notes.map(n => ({ ...n })),
     })))
+    projectStore.loadPatterns(state)
+    projectStore.loadDrumKit(state.drumKit)
+    // Current sounds win; the snapshot only fills in tracks that were removed since
+    instrumentStore.syncWithTracks(projectStore.tracks, { ...state.instruments, ...instrumentStore.instruments })
     projectStore.setTempo(state.tempo)
     projectStore.setLoopRegion(state.loopStart, state.loopEnd)
+    projectStore.setIntroLength(state.introLength)
 
     // Use setTimeout to ensure the flag is reset after Vue's reactivity cycle
     setTimeout(() => {
@@ -130,6 +153,7 @@ export function useHistory() {
     watch(
       () => projectStore.tracks.map(t => ({
         id: t.id,
+        name: t.name,
         notes: t.notes.map(n => ({ ...n })),
       })),
       () => {
@@ -140,6 +164,21 @@ export function useHistory() {
       },
       { deep: true }
     )
+
+    // Watch pattern edits and the song order
+    watch(
+      () => [
+        projectStore.patterns.map(p => ({ id: p.id, name: p.name, length: p.length, automation: p.automation })),
+        [...projectStore.arrangement],
+        projectStore.arrangementLoop,
+      ],
+      () => {
+        if (!isUndoRedoing.value) {
+          pushState()
+        }
+      },
+      { deep: true }
+    )
   }
 
   return {
@@ -2,9 +2,14 @@ import { onMounted, onUnmounted } from 'vue'
 import { usePlayback } from './usePlayback'
 import { useProjectStore } from '@/stores/useProjectStore'
 import { useUIStore } from '@/stores/useUIStore'
-import { useInstrumentStore } from '@/stores/useInstrumentStore'
 import { getHistoryInstance } from './useHistory'
 import { useClipboard } from './useClipboard'
+import { useTracks } from './useTracks'
+import { useNoteInput } from './useNoteInput'
+import { useStepEntry } from './useStepEntry'
+import { useTransportStore } from '@/stores/useTransportStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import { qwertyKeyToPitch } from '@/data/qwertyPiano'
 
 export function useKeyboard() {
   const { toggle, stop } = usePlayback()
@@ -12,6 +17,23 @@ export function useKeyboard() {
   const uiStore = useUIStore()
   const history = getHistoryInstance()
   const clipboard = useClipboard()
+  const tracks = useTracks()
+  const noteInput = useNoteInput()
+  const stepEntry = useStepEntry()
+  const transportStore = useTransportStore()
+  const instrumentStore = useInstrumentStore()
+
+  // Pitch each held piano key started, so release ends the same note after an octave change
+  const heldKeys = new Map<string, number>()
+
+  /**
+   * Pitch a key plays on the selected track (drum tracks start at the kick)
+   */
+  function pianoPitch(event: KeyboardEvent): number | null {
+    const track = projectStore.tracks.find(t => t.id === instrumentStore.selectedTrackId)
+    const basePitch = track?.type === 'drums' ? 36 : uiStore.startOctave * 12
+    return qwertyKeyToPitch(event.code, basePitch)
+  }
 
   function handleKeyDown(event: KeyboardEvent) {
     // Ignore if typing in an input
@@ -22,6 +44,19 @@ export function useKeyboard() {
       return
     }
 
+    // Recording or step entry: letter rows play notes instead of running shortcuts
+    const isPianoKey = (transportStore.isRecording || stepEntry.isStepEntry.value)
+      && !event.ctrlKey && !event.metaKey && !event.altKey
+    const pitch = isPianoKey ? pianoPitch(event) : null
+    if (pitch !== null) {
+      event.preventDefault()
+      if (!event.repeat) {
+        heldKeys.set(event.code, pitch)
+        noteInput.noteOn(pitch)
+      }
+      return
+    }
+
     const key = event.key.toLowerCase()
     const isCtrlOrCmd = event.ctrlKey || event.metaKey
     const isShift = event.shiftKey
@@ -154,14 +189,19 @@ export function useKeyboard() {
       return
     }
 
-    // Track selection with number keys
-    if (key >= '1' && key <= '4') {
-      const trackIndex = parseInt(key) - 1
-      const tracks = ['lead', 'bass', 'harmony', 'drums']
-      if (tracks[trackIndex]) {
-        const instrumentStore = useInstrumentStore()
-        instrumentStore.selectTrack(tracks[trackIndex])
-      }
+    // Track selection with number keys (1-9 by track position); while the digit row plays
+    // sharps in recording and step entry, Alt + number selects instead
+    const trackDigit = /^(?:Digit|Numpad)([1-9])$/.exec(event.code)
+    if (trackDigit && !isCtrlOrCmd) {
+      event.preventDefault()
+      tracks.selectTrackAt(parseInt(trackDigit[1]) - 1)
+      return
+    }
+
+    // Step entry cursor: a note length back or forward (forward leaves a rest)
+    if ((key === 'arrowleft' || key === 'arrowright') && !isCtrlOrCmd && stepEntry.isStepEntry.value) {
+      event.preventDefault()
+      stepEntry.moveCursor(key === 'arrowright' ? 1 : -1)
       return
     }
 
@@ -179,12 +219,23 @@ export function useKeyboard() {
     }
   }
 
+  function handleKeyUp(event: KeyboardEvent) {
+    // Released keys end their note even if piano mode was switched off meanwhile
+    const pitch = heldKeys.get(event.code)
+    if (pitch !== undefined) {
+      heldKeys.delete(event.code)
+      noteInput.noteOff(pitch)
+    }
+  }
+
   onMounted(() => {
     window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
   })
 
   onUnmounted(() => {
     window.removeEventListener('keydown', handleKeyDown)
+    window.removeEventListener('keyup', handleKeyUp)
   })
 
   return {
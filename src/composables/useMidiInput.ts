@@ -0,0 +1,156 @@
+import { ref, computed, shallowRef } from 'vue'
+
+export interface MidiNoteEvent {
+  type: 'on' | 'off'
+  pitch: number       // MIDI note number
+  velocity: number    // 0-1
+}
+
+export type MidiNoteHandler = (event: MidiNoteEvent) => void
+
+/**
+ * Source of MIDI access; tests swap in one that resolves to fake ports
+ */
+export type MidiAccessRequester = () => Promise<MIDIAccess>
+
+/**
+ * A fake MIDI keyboard: its requester plugs into setMidiAccessRequester, and key presses
+ * arrive as the raw messages a real port sends
+ */
+export interface FakeMidiPort {
+  requester: MidiAccessRequester
+  noteOn(pitch: number, velocity?: number): void   // Velocity 1-127
+  noteOff(pitch: number): void
+}
+
+function browserMidiAccess(): Promise<MIDIAccess> {
+  return navigator.requestMIDIAccess()
+}
+
+// Shared so one connection serves recording and every other listener
+const isConnected = ref(false)
+const inputNames = ref<string[]>([])
+const handlers = new Set<MidiNoteHandler>()
+let access: MIDIAccess | null = null
+const requestAccess = shallowRef<MidiAccessRequester | null>(null)
+
+/**
+ * Turn a raw MIDI message into a note event (note-on with velocity 0 is a note-off)
+ */
+function parseMessage(data: Uint8Array): MidiNoteEvent | null {
+  if (data.length < 3) return null
+
+  const status = data[0] & 0xF0
+  const pitch = data[1]
+  const velocity = data[2]
+
+  if (status === 0x90 && velocity > 0) {
+    return { type: 'on', pitch, velocity: velocity / 127 }
+  }
+  if (status === 0x80 || status === 0x90) {
+    return { type: 'off', pitch, velocity: 0 }
+  }
+  return null
+}
+
+function handleMessage(event: MIDIMessageEvent): void {
+  const note = event.data ? parseMessage(event.data) : null
+  if (!note) return
+
+  for (const handler of handlers) {
+    handler(note)
+  }
+}
+
+/**
+ * Listen to every connected input, including devices plugged in later
+ */
+function attachInputs(midiAccess: MIDIAccess): void {
+  const names: string[] = []
+  midiAccess.inputs.forEach((input) => {
+    input.onmidimessage = handleMessage
+    names.push(input.name ?? 'MIDI Input')
+  })
+  inputNames.value = names
+}
+
+/**
+ * Replace where MIDI access comes from (null restores the browser's Web MIDI)
+ * Drops the current connection so the next connect() uses the new source
+ */
+export function setMidiAccessRequester(requester: MidiAccessRequester | null): void {
+  access?.inputs.forEach((input) => {
+    input.onmidimessage = null
+  })
+  if (access) {
+    access.onstatechange = null
+  }
+
+  access = null
+  requestAccess.value = requester
+  isConnected.value = false
+  inputNames.value = []
+}
+
+/**
+ * One-input MIDI access that plays whatever notes its caller sends
+ */
+export function createFakeMidiPort(name = 'Fake MIDI Keyboard'): FakeMidiPort {
+  const input = { id: 'fake-input', name, onmidimessage: null } as unknown as MIDIInput
+  const midiAccess = {
+    inputs: new Map([[input.id, input]]),
+    outputs: new Map(),
+    onstatechange: null,
+    sysexEnabled: false,
+  } as unknown as MIDIAccess
+
+  const send = (data: number[]) => {
+    input.onmidimessage?.call(input, { data: new Uint8Array(data) } as MIDIMessageEvent)
+  }
+
+  return {
+    requester: () => Promise.resolve(midiAccess),
+    noteOn: (pitch, velocity = 100) => send([0x90, pitch, velocity]),
+    noteOff: (pitch) => send([0x80, pitch, 0]),
+  }
+}
+
+export function useMidiInput() {
+  const isSupported = computed(() => requestAccess.value !== null
+    || (typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator))
+
+  /**
+   * Ask the browser for MIDI access (must follow a user gesture in some browsers)
+   */
+  async function connect(): Promise<boolean> {
+    if (access) return true
+    if (!isSupported.value) return false
+
+    try {
+      access = await (requestAccess.value ?? browserMidiAccess)()
+      attachInputs(access)
+      access.onstatechange = () => attachInputs(access!)
+      isConnected.value = true
+      return true
+    } catch (e) {
+      console.error('MIDI access denied:', e)
+      return false
+    }
+  }
+
+  /**
+   * Register a note handler; returns a function that removes it
+   */
+  function onNote(handler: MidiNoteHandler): () => void {
+    handlers.add(handler)
+    return () => handlers.delete(handler)
+  }
+
+  return {
+    isSupported,
+    isConnected,
+    inputNames,
+    connect,
+    onNote,
+  }
+}
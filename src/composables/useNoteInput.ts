@@ -0,0 +1,61 @@
+import { useTransportStore } from '@/stores/useTransportStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import { usePlayback } from './usePlayback'
+import { useMidiInput } from './useMidiInput'
+import { useRecording } from './useRecording'
+import { useStepEntry } from './useStepEntry'
+
+let isInitialized = false
+
+/**
+ * Notes played live on a MIDI or computer keyboard
+ * Every note sounds on the selected track's instrument for as long as it is held;
+ * it is also recorded during playback, or step-entered at the cursor while stopped
+ */
+export function useNoteInput() {
+  const transportStore = useTransportStore()
+  const instrumentStore = useInstrumentStore()
+  const { previewNote, releasePreview } = usePlayback()
+  const midiInput = useMidiInput()
+  const recording = useRecording()
+  const stepEntry = useStepEntry()
+
+  function noteOn(pitch: number, velocity = 0.8): void {
+    previewNote(instrumentStore.selectedTrackId, pitch, { velocity, hold: true })
+
+    if (recording.isCapturing()) {
+      recording.noteOn(pitch, velocity)
+    } else if (stepEntry.isStepEntry.value && !transportStore.isPlaying) {
+      stepEntry.enterNote(pitch, velocity)
+    }
+  }
+
+  function noteOff(pitch: number): void {
+    releasePreview(pitch)
+    recording.noteOff(pitch)
+    stepEntry.releaseNote(pitch)
+  }
+
+  /**
+   * Route MIDI keyboards here and start recording support (call once)
+   */
+  function initialize(): void {
+    if (isInitialized) return
+    isInitialized = true
+
+    recording.initialize()
+    midiInput.onNote((event) => {
+      if (event.type === 'on') {
+        noteOn(event.pitch, event.velocity)
+      } else {
+        noteOff(event.pitch)
+      }
+    })
+  }
+
+  return {
+    noteOn,
+    noteOff,
+    initialize,
+  }
+}
@@ -5,6 +5,11 @@ import { useTransportStore } from '@/stores/useTransportStore'
 import { useInstrumentStore } from '@/stores/useInstrumentStore'
 import { useAudioEngine } from './useAudioEngine'
 import { updatePlayhead } from './usePlayheadBridge'
+import { Arrangement } from '@/audio/Arrangement'
+import { Automation } from '@/audio/Automation'
+import { ConsoleChip } from '@/audio/ConsoleChip'
+import { getDrumPad } from '@/data/drumKits'
+import type { PreviewOptions } from '@/audio/AudioEngine'
 
 export function usePlayback() {
   const projectStore = useProjectStore()
@@ -12,8 +17,19 @@ export function usePlayback() {
   const instrumentStore = useInstrumentStore()
   const { engine, initialize, isReady } = useAudioEngine()
 
-  const { isPlaying, masterVolume } = storeToRefs(transportStore)
-  const { tempo, loopStart, loopEnd, loopEnabled, tracks } = storeToRefs(projectStore)
+  const { isPlaying, masterVolume, isMetronomeEnabled, metronomeVolume, countInBars } = storeToRefs(transportStore)
+  const {
+    tempo, timeSignature, loopEnabled, tracks, songMode, songArrangement, playbackRegion,
+    currentAutomation, drumKit, hardwareProfile,
+  } = storeToRefs(projectStore)
+
+  /**
+   * Point the scheduler at the edited pattern's loop or the whole arranged song
+   */
+  function applyLoop(): void {
+    const { introStart, loopStart, loopEnd } = playbackRegion.value
+    engine.scheduler.setLoop(loopStart, loopEnd, loopEnabled.value, introStart)
+  }
 
   /**
    * Start playback from optional beat position
@@ -29,19 +45,31 @@ export function usePlayback() {
 
     // Force stop scheduler first to clear any stuck state
     engine.scheduler.stop()
+    engine.resetVoices()
 
     // Set up scheduler with current settings
-    engine.scheduler.setLoop(loopStart.value, loopEnd.value, loopEnabled.value)
+    applyLoop()
+    engine.scheduler.setTimeSignature(timeSignature.value)
+    engine.scheduler.setMetronomeEnabled(isMetronomeEnabled.value)
     engine.setMasterVolume(masterVolume.value)
+    engine.setMetronomeVolume(metronomeVolume.value)
+    engine.setConsoleProfile(hardwareProfile.value)
+
+    // Tempo lanes are read live so edits made while playing are heard
+    engine.scheduler.setTempoMap(beat => songMode.value
+      ? Automation.tempoAt(beat, undefined, songArrangement.value)
+      : Automation.tempoAt(beat, currentAutomation.value)
+    )
 
     // Determine start beat
+    const { introStart, loopEnd } = playbackRegion.value
     let startBeat: number
     if (fromBeat !== undefined) {
       // Start from specified beat
       startBeat = fromBeat
-    } else if (transportStore.currentBeat >= loopEnd.value) {
-      // Reset to loop start if past the end
-      startBeat = loopStart.value
+    } else if (transportStore.currentBeat >= loopEnd || transportStore.currentBeat < introStart) {
+      // Restart from the intro (or loop start) if outside the song
+      startBeat = introStart
     } else {
       // Continue from current position
       startBeat = transportStore.currentBeat
@@ -54,17 +82,21 @@ export function usePlayback() {
         engine.playBeat(
           tracks.value,
           instrumentStore.instruments,
+          drumKit.value,
           beat,
-          time
+          time,
+          songMode.value ? songArrangement.value : undefined,
+          currentAutomation.value
         )
       },
       // Visual callback - update UI
       // PHASE 2: Direct DOM update for playhead (bypasses Vue reactivity for grid)
       (beat) => {
-        updatePlayhead(beat) // Direct DOM update - no grid re-renders
+        updatePlayhead(toGridBeat(beat)) // Direct DOM update - no grid re-renders
         transportStore.setCurrentBeat(beat) // Still update store for other UI (beat counter, etc.)
       },
-      startBeat
+      startBeat,
+      countInBars.value
     )
 
     transportStore.play()
@@ -72,11 +104,29 @@ export function usePlayback() {
 
   /**
    * Start playback from a specific beat
+   * In song mode the beat is in the edited pattern, played from its first place in the song
    */
   async function playFromBeat(beat: number): Promise<void> {
+    if (songMode.value) {
+      const slot = Arrangement.getSlots(songArrangement.value)
+        .find(s => s.pattern.id === projectStore.currentPatternId)
+      await play(slot ? slot.start + beat : 0)
+      return
+    }
     await play(beat)
   }
 
+  /**
+   * Song positions show on the grid relative to the pattern playing there
+   */
+  function toGridBeat(beat: number): number {
+    if (!songMode.value) return beat
+
+    const slots = Arrangement.getSlots(songArrangement.value)
+    const index = Arrangement.getSlotIndexAt(songArrangement.value, beat)
+    return index === -1 ? beat : beat - slots[index].start
+  }
+
   /**
    * Pause playback
    */
@@ -113,33 +163,34 @@ export function usePlayback() {
   }
 
   /**
-   * Preview a note (for UI feedback when clicking cells)
+   * Preview a note (for UI feedback when clicking cells, or live keyboard play)
+   * Drum hits are one-shots, so hold only affects synth tracks
    */
-  function previewNote(trackId: string, pitch: number): void {
+  function previewNote(trackId: string, pitch: number, options: PreviewOptions = {}): void {
     if (!isReady.value) return
 
     const config = instrumentStore.instruments[trackId]
     if (!config) return
 
     const track = tracks.value.find(t => t.id === trackId)
+    // Previews sound on the track's console channel, as playback would
+    const hardware = track ? ConsoleChip.getVoice(hardwareProfile.value, track) : undefined
     if (track?.type === 'drums') {
-      const drumMap: Record<number, 'kick' | 'snare' | 'hihat' | 'tom' | 'clap' | 'openhat' | 'crash' | 'rimshot'> = {
-        36: 'kick',
-        38: 'snare',
-        42: 'hihat',
-        44: 'clap',
-        45: 'tom',
-        46: 'openhat',
-        47: 'rimshot',
-        49: 'crash',
-      }
-      const drumType = drumMap[pitch] || 'kick'
-      engine.previewDrum(drumType)
+      const pad = getDrumPad(drumKit.value, pitch)
+      if (pad) engine.previewDrum(pad, options.velocity ?? 0.8, hardware)
     } else {
-      engine.previewNote(pitch, config)
+      engine.previewNote(pitch, config, { ...options, hardware })
     }
   }
 
+  /**
+   * Release a note started with previewNote({ hold: true })
+   */
+  function releasePreview(pitch: number): void {
+    if (!isReady.value) return
+    engine.releasePreview(pitch)
+  }
+
   // React to tempo changes during playback
   watch(tempo, (newTempo) => {
     if (isPlaying.value) {
@@ -147,9 +198,34 @@ export function usePlayback() {
     }
   })
 
+  // React to meter changes during playback
+  watch(timeSignature, (signature) => {
+    if (isReady.value) {
+      engine.scheduler.setTimeSignature(signature)
+    }
+  })
+
   // React to loop changes during playback
-  watch([loopStart, loopEnd, loopEnabled], () => {
-    engine.scheduler.setLoop(loopStart.value, loopEnd.value, loopEnabled.value)
+  watch([playbackRegion, loopEnabled], () => {
+    if (isReady.value) {
+      applyLoop()
+    }
+  })
+
+  // React to metronome changes (clicks can be switched on mid-song)
+  watch(isMetronomeEnabled, (enabled) => {
+    if (isReady.value) {
+      engine.scheduler.setMetronomeEnabled(enabled)
+    }
+  })
+
+  watch(metronomeVolume, (volume) => {
+    engine.setMetronomeVolume(volume)
+  })
+
+  // React to console profile changes (heard from the next note)
+  watch(hardwareProfile, (profile) => {
+    engine.setConsoleProfile(profile)
   })
 
   // React to master volume changes
@@ -169,6 +245,7 @@ export function usePlayback() {
     stop,
     toggle,
     previewNote,
+    releasePreview,
     isPlaying,
   }
 }
@@ -0,0 +1,172 @@
+import { ref } from 'vue'
+import { useProjectStore } from '@/stores/useProjectStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import { useStorage } from './useStorage'
+import { useAutosave } from './useAutosave'
+import { getHistoryInstance } from './useHistory'
+import type { ProjectMeta } from '@/types/project'
+
+// Shared so every component sees the same list after a save
+const projects = ref<ProjectMeta[]>([])
+const isLoading = ref(false)
+
+export function useProjectLibrary() {
+  const projectStore = useProjectStore()
+  const instrumentStore = useInstrumentStore()
+  const storage = useStorage()
+  const { exportTemplate, importTemplate } = useAutosave()
+
+  /**
+   * Reload the saved project list (most recent first)
+   */
+  async function refresh(): Promise<void> {
+    isLoading.value = true
+    try {
+      projects.value = await storage.listProjects()
+    } catch (e) {
+      console.error('Failed to list projects:', e)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Save the open project and its instruments to the library
+   */
+  async function saveCurrent(): Promise<boolean> {
+    try {
+      const { project, instruments } = exportTemplate()
+      await storage.saveProject(project, instruments)
+      projectStore.lastSaved = new Date()
+      await refresh()
+      return true
+    } catch (e) {
+      console.error('Failed to save project:', e)
+      return false
+    }
+  }
+
+  /**
+   * Keep the open project before switching away from it
+   * Empty projects that were never saved are not worth a library entry
+   */
+  async function keepCurrent(): Promise<boolean> {
+    const isSaved = projects.value.some(p => p.id === projectStore.id)
+    const hasNotes = projectStore.tracks.some(t => t.notes.length > 0)
+    if (!isSaved && !hasNotes) return true
+
+    return saveCurrent()
+  }
+
+  /**
+   * Open a saved project, keeping the current one in the library
+   */
+  async function openProject(id: string): Promise<boolean> {
+    try {
+      if (!(await keepCurrent())) return false
+
+      const saved = await storage.loadProject(id)
+      if (!saved) return false
+
+      const { instruments, ...project } = saved
+      const loaded = importTemplate({
+        version: '1.0',
+        project,
+        instruments: instruments ?? {},
+      })
+      if (loaded) {
+        getHistoryInstance().clearHistory()
+      }
+      return loaded
+    } catch (e) {
+      console.error('Failed to open project:', e)
+      return false
+    }
+  }
+
+  /**
+   * Start a new project, keeping the current one in the library
+   */
+  async function newProject(): Promise<boolean> {
+    if (!(await keepCurrent())) return false
+
+    projectStore.newProject()
+    instrumentStore.resetAllInstruments(projectStore.tracks)
+    getHistoryInstance().clearHistory()
+    return true
+  }
+
+  /**
+   * Save a copy of a project under a new id
+   */
+  async function duplicateProject(id: string): Promise<boolean> {
+    try {
+      // Copy what is on screen, not the last saved version
+      if (id === projectStore.id && !(await saveCurrent())) return false
+
+      const saved = await storage.loadProject(id)
+      if (!saved) return false
+
+      const { instruments, ...project } = saved
+      await storage.saveProject(
+        { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: new Date().toISOString() },
+        instruments
+      )
+      await refresh()
+      return true
+    } catch (e) {
+      console.error('Failed to duplicate project:', e)
+      return false
+    }
+  }
+
+  /**
+   * Rename a saved project (and the open project if it is the same one)
+   */
+  async function renameProject(id: string, newName: string): Promise<boolean> {
+    try {
+      if (id === projectStore.id) {
+        projectStore.setName(newName)
+        return await saveCurrent()
+      }
+
+      const saved = await storage.loadProject(id)
+      if (!saved) return false
+
+      const { instruments, ...project } = saved
+      await storage.saveProject({ ...project, name: newName.trim() || project.name }, instruments)
+      await refresh()
+      return true
+    } catch (e) {
+      console.error('Failed to rename project:', e)
+      return false
+    }
+  }
+
+  /**
+   * Remove a project from the library
+   * The open project stays in the editor (and autosave) until something else is opened
+   */
+  async function deleteProject(id: string): Promise<boolean> {
+    try {
+      await storage.deleteProject(id)
+      await refresh()
+      return true
+    } catch (e) {
+      console.error('Failed to delete project:', e)
+      return false
+    }
+  }
+
+  return {
+    projects,
+    isLoading,
+    refresh,
+    saveCurrent,
+    openProject,
+    newProject,
+    duplicateProject,
+    renameProject,
+    deleteProject,
+  }
+}
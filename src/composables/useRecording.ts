@@ -0,0 +1,128 @@
+import { ref, watch } from 'vue'
+import { useProjectStore } from '@/stores/useProjectStore'
+import { useTransportStore } from '@/stores/useTransportStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import { useAudioEngine } from './useAudioEngine'
+import { Arrangement } from '@/audio/Arrangement'
+
+export type RecordMode = 'overdub' | 'replace'
+
+interface HeldNote {
+  trackId: string
+  noteId: string
+  startTime: number   // Audio context time of the key press
+}
+
+// Shared between the keyboard, MIDI input and transport controls
+const recordMode = ref<RecordMode>('overdub')
+const heldNotes = new Map<number, HeldNote>()
+const takeNoteIds = new Set<string>()   // Notes recorded in this take survive replace mode
+let isInitialized = false
+
+export function useRecording() {
+  const projectStore = useProjectStore()
+  const transportStore = useTransportStore()
+  const instrumentStore = useInstrumentStore()
+  const { engine, isReady } = useAudioEngine()
+
+  /**
+   * Arm or disarm recording; each arm starts a new take
+   */
+  function setRecording(enabled: boolean): void {
+    transportStore.setRecording(enabled)
+    heldNotes.clear()
+    takeNoteIds.clear()
+  }
+
+  function setRecordMode(mode: RecordMode): void {
+    recordMode.value = mode
+  }
+
+  /**
+   * Whether played notes are written right now (armed, playing and past the count-in)
+   */
+  function isCapturing(): boolean {
+    return transportStore.isRecording
+      && transportStore.isPlaying
+      && isReady.value
+      && !engine.scheduler.getIsCountingIn()
+  }
+
+  /**
+   * Where the heard song position falls in the edited pattern
+   * In song mode, nothing is recorded while another pattern plays
+   */
+  function currentEditBeat(): number | null {
+    const beat = engine.scheduler.getQuantizedBeat()
+    if (!projectStore.songMode) return beat
+
+    return Arrangement.toPatternBeat(projectStore.songArrangement, beat, projectStore.currentPatternId)
+  }
+
+  /**
+   * A key went down while capturing: write it into the selected track
+   */
+  function noteOn(pitch: number, velocity = 0.8): void {
+    if (!isCapturing()) return
+
+    const trackId = instrumentStore.selectedTrackId
+    const startBeat = currentEditBeat()
+    const track = projectStore.tracks.find(t => t.id === trackId)
+    if (startBeat === null || !track) return
+
+    // A new take on the same cell replaces the old note instead of stacking on it
+    const existing = track.notes.find(n => n.pitch === pitch && n.startBeat === startBeat)
+    if (existing) {
+      projectStore.removeNote(trackId, existing.id)
+    }
+
+    const noteId = projectStore.addNote(trackId, { pitch, startBeat, duration: 1, velocity })
+    takeNoteIds.add(noteId)
+    heldNotes.set(pitch, { trackId, noteId, startTime: engine.getCurrentTime() })
+  }
+
+  /**
+   * A key came up: the held time, quantized to 16ths, becomes the note length
+   */
+  function noteOff(pitch: number): void {
+    const held = heldNotes.get(pitch)
+    if (!held) return
+    heldNotes.delete(pitch)
+
+    const steps = Math.round((engine.getCurrentTime() - held.startTime) / engine.scheduler.durationToTime(1))
+    projectStore.updateNote(held.trackId, held.noteId, { duration: Math.max(1, steps) })
+  }
+
+  /**
+   * Hook up replace-mode erasing (call once)
+   */
+  function initialize(): void {
+    if (isInitialized) return
+    isInitialized = true
+
+    // Replace mode: older notes are erased as the playhead passes over them
+    watch(() => transportStore.currentBeat, () => {
+      if (recordMode.value !== 'replace' || !isCapturing()) return
+
+      const beat = projectStore.songMode
+        ? Arrangement.toPatternBeat(projectStore.songArrangement, transportStore.currentBeat, projectStore.currentPatternId)
+        : transportStore.currentBeat
+      const track = projectStore.tracks.find(t => t.id === instrumentStore.selectedTrackId)
+      if (beat === null || !track) return
+
+      for (const note of track.notes.filter(n => n.startBeat === beat && !takeNoteIds.has(n.id))) {
+        projectStore.removeNote(track.id, note.id)
+      }
+    })
+  }
+
+  return {
+    recordMode,
+    setRecording,
+    setRecordMode,
+    isCapturing,
+    noteOn,
+    noteOff,
+    initialize,
+  }
+}
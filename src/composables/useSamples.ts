@@ -0,0 +1,139 @@
+import { ref } from 'vue'
+import { useProjectStore } from '@/stores/useProjectStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import { useUIStore } from '@/stores/useUIStore'
+import { useStorage } from './useStorage'
+import { SampleBank } from '@/audio/SampleBank'
+import { SampleImporter } from '@/audio/SampleImporter'
+import type { Sample, SampleFormat, SampleMeta } from '@/types/sample'
+
+// Shared so every sample picker lists the same sounds
+const samples = ref<SampleMeta[]>([])
+const importFormat = ref<SampleFormat>('original')
+let isLoaded = false
+
+function toMeta({ data: _data, ...meta }: Sample): SampleMeta {
+  return meta
+}
+
+export function useSamples() {
+  const projectStore = useProjectStore()
+  const instrumentStore = useInstrumentStore()
+  const uiStore = useUIStore()
+  const storage = useStorage()
+
+  /**
+   * Load the imported samples from IndexedDB into the synth (once per session)
+   */
+  async function loadSamples(): Promise<void> {
+    if (isLoaded) return
+    isLoaded = true
+
+    try {
+      const stored = await storage.listSamples()
+      for (const sample of stored) {
+        SampleBank.add(sample)
+      }
+      samples.value = stored.map(toMeta)
+    } catch (e) {
+      console.error('Failed to load samples:', e)
+    }
+  }
+
+  /**
+   * Decode a file in the chosen format and keep it in IndexedDB
+   */
+  async function importSample(file: File): Promise<Sample | null> {
+    try {
+      const sample = await SampleImporter.fromFile(await file.arrayBuffer(), file.name, importFormat.value)
+      await storage.saveSample(sample)
+      SampleBank.add(sample)
+      samples.value = [...samples.value, toMeta(sample)]
+      return sample
+    } catch (e) {
+      console.error('Failed to import sample:', e)
+      uiStore.showNotification('Could not read that audio file', 'error')
+      return null
+    }
+  }
+
+  /**
+   * Import a file as a new drum pad that plays it
+   */
+  async function importDrumPad(file: File): Promise<string | null> {
+    const sample = await importSample(file)
+    if (!sample) return null
+
+    const pad = projectStore.addDrumPad()
+    if (!pad) {
+      uiStore.showNotification('Every note already has a drum pad', 'error')
+      return null
+    }
+    projectStore.updateDrumPad(pad.id, {
+      name: sample.name,
+      label: sample.name.slice(0, 4).toUpperCase(),
+    })
+    projectStore.updateDrumLayer(pad.id, 0, {
+      source: 'sample',
+      sampleId: sample.id,
+      level: 1,
+      decay: sample.data.length / sample.sampleRate,
+      filter: 'none',
+    })
+    uiStore.showNotification(`Added pad ${sample.name}`, 'success')
+    return pad.id
+  }
+
+  /**
+   * Import a file as the pitched sample instrument of a track
+   */
+  async function importInstrument(trackId: string, file: File): Promise<boolean> {
+    const sample = await importSample(file)
+    if (!sample) return false
+
+    instrumentStore.setSample(trackId, sample.id)
+    uiStore.showNotification(`Loaded sample ${sample.name}`, 'success')
+    return true
+  }
+
+  /**
+   * Set the note a sample plays at its recorded speed
+   */
+  async function setRootPitch(sampleId: string, pitch: number): Promise<void> {
+    const sample = SampleBank.get(sampleId)
+    if (!sample) return
+
+    const updated = { ...sample, rootPitch: Math.max(0, Math.min(127, Math.round(pitch))) }
+    SampleBank.add(updated)
+    samples.value = samples.value.map(s => (s.id === sampleId ? toMeta(updated) : s))
+    try {
+      await storage.saveSample(updated)
+    } catch (e) {
+      console.error('Failed to save sample:', e)
+    }
+  }
+
+  /**
+   * Remove a sample for good; pads and instruments still using it fall silent
+   */
+  async function deleteSample(sampleId: string): Promise<void> {
+    try {
+      await storage.deleteSample(sampleId)
+      SampleBank.remove(sampleId)
+      samples.value = samples.value.filter(s => s.id !== sampleId)
+    } catch (e) {
+      console.error('Failed to delete sample:', e)
+    }
+  }
+
+  return {
+    samples,
+    importFormat,
+    loadSamples,
+    importSample,
+    importDrumPad,
+    importInstrument,
+    setRootPitch,
+    deleteSample,
+  }
+}
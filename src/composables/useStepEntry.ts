@@ -0,0 +1,87 @@
+import { ref } from 'vue'
+import { useProjectStore } from '@/stores/useProjectStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+
+// Shared so the grid, transport and keyboard all see one cursor
+const isStepEntry = ref(false)
+const stepCursor = ref(0)
+const stepLength = ref(1)
+const heldPitches = new Set<number>()
+let chordBeat = 0   // Keys pressed while others are held stack on this step
+
+export function useStepEntry() {
+  const projectStore = useProjectStore()
+  const instrumentStore = useInstrumentStore()
+
+  /**
+   * Keep a position inside the visible grid (intro plus loop), wrapping at the end
+   */
+  function wrap(beat: number): number {
+    const { introStart, loopEnd } = projectStore
+    const span = Math.max(1, loopEnd - introStart)
+    return introStart + ((((beat - introStart) % span) + span) % span)
+  }
+
+  function setStepEntry(enabled: boolean): void {
+    isStepEntry.value = enabled
+    heldPitches.clear()
+    if (enabled) {
+      stepCursor.value = wrap(stepCursor.value)
+    }
+  }
+
+  function setStepLength(steps: number): void {
+    stepLength.value = Math.max(1, steps)
+  }
+
+  function setCursor(beat: number): void {
+    stepCursor.value = wrap(beat)
+  }
+
+  /**
+   * Move the cursor by whole note lengths (moving forward leaves a rest)
+   */
+  function moveCursor(lengths: number): void {
+    setCursor(stepCursor.value + lengths * stepLength.value)
+  }
+
+  /**
+   * Place a note of the current length at the cursor and advance past it
+   * Keys struck while another is still held form a chord on the same step
+   */
+  function enterNote(pitch: number, velocity = 0.8): void {
+    const trackId = instrumentStore.selectedTrackId
+    const track = projectStore.tracks.find(t => t.id === trackId)
+    if (!track) return
+
+    const startBeat = heldPitches.size > 0 ? chordBeat : stepCursor.value
+    if (heldPitches.size === 0) {
+      chordBeat = startBeat
+      moveCursor(1)
+    }
+    heldPitches.add(pitch)
+
+    const existing = track.notes.find(n => n.pitch === pitch && n.startBeat === startBeat)
+    if (existing) {
+      projectStore.removeNote(trackId, existing.id)
+    }
+
+    projectStore.addNote(trackId, { pitch, startBeat, duration: stepLength.value, velocity })
+  }
+
+  function releaseNote(pitch: number): void {
+    heldPitches.delete(pitch)
+  }
+
+  return {
+    isStepEntry,
+    stepCursor,
+    stepLength,
+    setStepEntry,
+    setStepLength,
+    setCursor,
+    moveCursor,
+    enterNote,
+    releaseNote,
+  }
+}
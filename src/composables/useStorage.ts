@@ -1,9 +1,12 @@
 import { ref } from 'vue'
-import type { Project, ProjectMeta } from '@/types/project'
+import type { Project, ProjectMeta, SavedProject } from '@/types/project'
+import type { InstrumentConfig } from '@/types/instrument'
+import type { Sample } from '@/types/sample'
 
 const DB_NAME = 'PixelMusicDB'
-const DB_VERSION = 1
+const DB_VERSION = 2
 const PROJECTS_STORE = 'projects'
+const SAMPLES_STORE = 'samples'
 
 export function useStorage() {
   const isReady = ref(false)
@@ -39,22 +42,31 @@ export function useStorage() {
           store.createIndex('name', 'name', { unique: false })
           store.createIndex('updatedAt', 'updatedAt', { unique: false })
         }
+
+        // Imported samples, shared by every project
+        if (!database.objectStoreNames.contains(SAMPLES_STORE)) {
+          database.createObjectStore(SAMPLES_STORE, { keyPath: 'id' })
+        }
       }
     })
   }
 
   /**
-   * Save a project to IndexedDB
+   * Save a project (and optionally its instruments) to IndexedDB
    */
-  async function saveProject(project: Project): Promise<void> {
+  async function saveProject(
+    project: Project,
+    instruments?: Record<string, InstrumentConfig>
+  ): Promise<void> {
     const database = await openDB()
 
     return new Promise((resolve, reject) => {
       const transaction = database.transaction([PROJECTS_STORE], 'readwrite')
       const store = transaction.objectStore(PROJECTS_STORE)
 
-      const projectWithMeta = {
+      const projectWithMeta: SavedProject = {
         ...project,
+        instruments,
         updatedAt: new Date().toISOString(),
       }
 
@@ -67,7 +79,7 @@ export function useStorage() {
   /**
    * Load a project from IndexedDB
    */
-  async function loadProject(id: string): Promise<Project | null> {
+  async function loadProject(id: string): Promise<SavedProject | null> {
     const database = await openDB()
 
     return new Promise((resolve, reject) => {
@@ -122,6 +134,54 @@ export function useStorage() {
     })
   }
 
+  /**
+   * Save an imported sample (audio included) to IndexedDB
+   */
+  async function saveSample(sample: Sample): Promise<void> {
+    const database = await openDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([SAMPLES_STORE], 'readwrite')
+      const store = transaction.objectStore(SAMPLES_STORE)
+      const request = store.put(sample)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  /**
+   * Load every imported sample with its audio
+   */
+  async function listSamples(): Promise<Sample[]> {
+    const database = await openDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([SAMPLES_STORE], 'readonly')
+      const store = transaction.objectStore(SAMPLES_STORE)
+      const request = store.getAll()
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  /**
+   * Delete an imported sample from IndexedDB
+   */
+  async function deleteSample(id: string): Promise<void> {
+    const database = await openDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([SAMPLES_STORE], 'readwrite')
+      const store = transaction.objectStore(SAMPLES_STORE)
+      const request = store.delete(id)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
   /**
    * Save project to localStorage for quick access
    */
@@ -168,6 +228,9 @@ export function useStorage() {
     loadProject,
     listProjects,
     deleteProject,
+    saveSample,
+    listSamples,
+    deleteSample,
     saveToLocalStorage,
     loadFromLocalStorage,
     savePreferences,
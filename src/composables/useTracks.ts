@@ -0,0 +1,73 @@
+import { useProjectStore } from '@/stores/useProjectStore'
+import { useInstrumentStore } from '@/stores/useInstrumentStore'
+import type { TrackType } from '@/types/project'
+
+/**
+ * Track list editing that keeps the project tracks and their instruments in step
+ */
+export function useTracks() {
+  const projectStore = useProjectStore()
+  const instrumentStore = useInstrumentStore()
+
+  /**
+   * Add a track with its own default instrument and select it
+   */
+  function addTrack(type: TrackType, name?: string): string {
+    const track = projectStore.addTrack(type, name)
+    instrumentStore.addInstrument(track.id, type)
+    instrumentStore.selectTrack(track.id)
+    return track.id
+  }
+
+  /**
+   * Remove a track and its instrument (the last track cannot be removed)
+   */
+  function removeTrack(trackId: string): boolean {
+    if (projectStore.tracks.length <= 1) return false
+
+    const index = projectStore.tracks.findIndex(t => t.id === trackId)
+    if (index === -1) return false
+
+    projectStore.removeTrack(trackId)
+    instrumentStore.removeInstrument(trackId)
+
+    // Select the neighbour that took its place
+    if (instrumentStore.selectedTrackId === trackId) {
+      const next = projectStore.tracks[Math.min(index, projectStore.tracks.length - 1)]
+      instrumentStore.selectTrack(next.id)
+    }
+    return true
+  }
+
+  /**
+   * Move a track one slot left (-1) or right (+1)
+   */
+  function moveTrack(trackId: string, offset: number): void {
+    const index = projectStore.tracks.findIndex(t => t.id === trackId)
+    if (index !== -1) {
+      projectStore.moveTrack(trackId, index + offset)
+    }
+  }
+
+  function renameTrack(trackId: string, name: string): void {
+    projectStore.renameTrack(trackId, name)
+  }
+
+  /**
+   * Select a track by its position (used by the number key shortcuts)
+   */
+  function selectTrackAt(index: number): void {
+    const track = projectStore.tracks[index]
+    if (track) {
+      instrumentStore.selectTrack(track.id)
+    }
+  }
+
+  return {
+    addTrack,
+    removeTrack,
+    moveTrack,
+    renameTrack,
+    selectTrackAt,
+  }
+}
@@ -0,0 +1,32 @@
+import type { AutomationTarget } from '@/types/automation'
+
+export interface AutomationTargetInfo {
+  target: AutomationTarget
+  name: string
+  short: string        // Lane header label
+  min: number
+  max: number
+  step: number         // Resolution of drawn breakpoints
+  perTrack: boolean    // False for song-wide targets
+}
+
+export const AUTOMATION_TARGETS: AutomationTargetInfo[] = [
+  { target: 'tempo', name: 'Tempo (BPM)', short: 'BPM', min: 40, max: 240, step: 1, perTrack: false },
+  { target: 'volume', name: 'Track Volume', short: 'VOL', min: 0, max: 1, step: 0.01, perTrack: true },
+  { target: 'pulseWidth', name: 'Pulse Width', short: 'PW', min: 0.05, max: 0.95, step: 0.01, perTrack: true },
+  { target: 'detune', name: 'Detune (cents)', short: 'DET', min: -100, max: 100, step: 1, perTrack: true },
+  { target: 'bitcrushBits', name: 'Bitcrush Bits', short: 'BITS', min: 1, max: 16, step: 1, perTrack: true },
+  { target: 'bitcrushFreq', name: 'Bitcrush Rate', short: 'RATE', min: 0.01, max: 1, step: 0.01, perTrack: true },
+]
+
+export function getAutomationTarget(target: AutomationTarget): AutomationTargetInfo {
+  return AUTOMATION_TARGETS.find(t => t.target === target) ?? AUTOMATION_TARGETS[0]
+}
+
+/**
+ * Keep a value inside its target's range
+ */
+export function clampAutomationValue(target: AutomationTarget, value: number): number {
+  const { min, max } = getAutomationTarget(target)
+  return Math.max(min, Math.min(max, value))
+}
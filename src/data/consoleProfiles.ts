@@ -0,0 +1,67 @@
+import type { ConsoleProfile, ConsoleProfileId } from '@/types/console'
+
+const NES_CLOCK = 1789773      // NTSC 2A03 CPU clock
+const GAMEBOY_CLOCK = 131072   // DMG pulse period clock (CPU clock / 32)
+
+// 2A03 noise periods in CPU cycles, fastest first
+const NES_NOISE_PERIODS = [4, 8, 16, 32, 64, 96, 128, 160, 202, 254, 380, 508, 762, 1016, 2034, 4068]
+
+// DMG noise: 524288 Hz / divisor / 2^(shift + 1), one rate per shift with divisor 1
+const GAMEBOY_NOISE_SHIFTS = Array.from({ length: 14 }, (_, shift) => shift)
+
+export const CONSOLE_PROFILES: ConsoleProfile[] = [
+  {
+    id: 'free',
+    name: 'Free',
+    chip: 'Any waveform, unlimited voices',
+    channels: [],
+    clock: 0,
+    dutyCycles: [0.125, 0.25, 0.5, 0.75],
+    volumeSteps: 0,
+    frameRate: 0,
+    driverRate: 60,
+    noiseRates: [],
+    shortNoiseSteps: 0,
+  },
+  {
+    id: 'nes',
+    name: 'NES',
+    chip: 'Ricoh 2A03',
+    channels: [
+      { id: 'pulse1', name: 'Pulse 1', kind: 'pulse', divider: 16, minPeriod: 9 },
+      { id: 'pulse2', name: 'Pulse 2', kind: 'pulse', divider: 16, minPeriod: 9 },
+      { id: 'triangle', name: 'Triangle', kind: 'triangle', divider: 32, minPeriod: 3 },
+      { id: 'noise', name: 'Noise', kind: 'noise' },
+      { id: 'dpcm', name: 'DPCM', kind: 'dpcm' },
+    ],
+    clock: NES_CLOCK,
+    dutyCycles: [0.125, 0.25, 0.5, 0.75],
+    volumeSteps: 16,
+    frameRate: 240,
+    driverRate: 60.0988,
+    noiseRates: NES_NOISE_PERIODS.map(period => NES_CLOCK / period),
+    shortNoiseSteps: 93,
+  },
+  {
+    id: 'gameboy',
+    name: 'Game Boy',
+    chip: 'DMG APU',
+    channels: [
+      { id: 'pulse1', name: 'Pulse 1', kind: 'pulse', divider: 1, minPeriod: 1 },
+      { id: 'pulse2', name: 'Pulse 2', kind: 'pulse', divider: 1, minPeriod: 1 },
+      { id: 'wave', name: 'Wave', kind: 'wave', divider: 2, minPeriod: 1 },
+      { id: 'noise', name: 'Noise', kind: 'noise' },
+    ],
+    clock: GAMEBOY_CLOCK,
+    dutyCycles: [0.125, 0.25, 0.5, 0.75],
+    volumeSteps: 16,
+    frameRate: 64,
+    driverRate: 59.7275,
+    noiseRates: GAMEBOY_NOISE_SHIFTS.map(shift => 524288 / Math.pow(2, shift + 1)),
+    shortNoiseSteps: 127,
+  },
+]
+
+export function getConsoleProfile(id: ConsoleProfileId | undefined): ConsoleProfile {
+  return CONSOLE_PROFILES.find(p => p.id === id) ?? CONSOLE_PROFILES[0]
+}
@@ -0,0 +1,106 @@
+import type { DrumKit, DrumLayer, DrumPad } from '@/types/drumKit'
+import { TRACK_COLORS } from './trackColors'
+
+// Fields a layer starts with; pads spell out only what differs
+const LAYER: DrumLayer = {
+  source: 'noise',
+  level: 1,
+  pitch: 200,
+  pitchEnd: 200,
+  sweep: 0,
+  decay: 0.1,
+  delay: 0,
+  filter: 'none',
+  filterFreq: 1000,
+  filterQ: 1,
+}
+
+function layer(fields: Partial<DrumLayer>): DrumLayer {
+  return { ...LAYER, ...fields }
+}
+
+// The classic eight sounds, on their General MIDI drum notes
+const DEFAULT_PADS: DrumPad[] = [
+  {
+    id: 'kick', name: 'Kick Drum', label: 'KCK', color: 'purple', pitch: 36,
+    layers: [layer({ source: 'sine', pitch: 150, pitchEnd: 40, sweep: 0.1, decay: 0.3 })],
+  },
+  {
+    id: 'snare', name: 'Snare', label: 'SNR', color: 'cyan', pitch: 38,
+    layers: [
+      layer({ level: 0.7, decay: 0.2 }),
+      layer({ source: 'triangle', level: 0.3, pitch: 180, pitchEnd: 100, sweep: 0.05, decay: 0.1 }),
+    ],
+  },
+  {
+    id: 'hihat', name: 'Closed Hi-Hat', label: 'CHH', color: 'yellow', pitch: 42,
+    layers: [layer({ level: 0.5, decay: 0.05, filter: 'highpass', filterFreq: 7000 })],
+  },
+  {
+    id: 'clap', name: 'Clap', label: 'CLAP', color: 'purple', pitch: 44,
+    layers: [0, 0.01, 0.02].map(delay =>
+      layer({ level: 0.6, delay, filter: 'bandpass', filterFreq: 1500, filterQ: 1.5 })
+    ),
+  },
+  {
+    id: 'tom', name: 'Tom', label: 'TOM', color: 'orange', pitch: 45,
+    layers: [layer({ source: 'sine', pitch: 200, pitchEnd: 80, sweep: 0.15, decay: 0.25 })],
+  },
+  {
+    id: 'openhat', name: 'Open Hi-Hat', label: 'OHH', color: 'cyan', pitch: 46,
+    layers: [layer({ level: 0.4, decay: 0.2, filter: 'highpass', filterFreq: 6000 })],
+  },
+  {
+    id: 'rimshot', name: 'Rimshot', label: 'RIM', color: 'green', pitch: 47,
+    layers: [
+      layer({ source: 'triangle', level: 0.8, pitch: 400, pitchEnd: 200, sweep: 0.02, decay: 0.08 }),
+      layer({ level: 0.4, decay: 0.05, filter: 'highpass', filterFreq: 3000 }),
+    ],
+  },
+  {
+    id: 'crash', name: 'Crash', label: 'CRSH', color: 'red', pitch: 49,
+    layers: [layer({ level: 0.5, decay: 0.8, filter: 'highpass', filterFreq: 4000 })],
+  },
+]
+
+export function cloneDrumKit(kit: DrumKit): DrumKit {
+  return {
+    pads: kit.pads.map(pad => ({ ...pad, layers: pad.layers.map(l => ({ ...l })) })),
+  }
+}
+
+export function createDefaultDrumKit(): DrumKit {
+  return cloneDrumKit({ pads: DEFAULT_PADS })
+}
+
+/**
+ * Pad a drum note plays; pitches without a pad fall back to the first one
+ */
+export function getDrumPad(kit: DrumKit, pitch: number): DrumPad | undefined {
+  return kit.pads.find(p => p.pitch === pitch) ?? kit.pads[0]
+}
+
+/**
+ * A new pad on the lowest free note from the bottom of the General MIDI drum map
+ * (then below it); null when every note already has a pad
+ */
+export function createDrumPad(kit: DrumKit): DrumPad | null {
+  const used = new Set(kit.pads.map(p => p.pitch))
+  const notes = Array.from({ length: 128 }, (_, i) => (i + 35) % 128)
+  const pitch = notes.find(n => !used.has(n))
+  if (pitch === undefined) return null
+
+  const number = kit.pads.length + 1
+  return {
+    id: crypto.randomUUID(),
+    name: `Pad ${number}`,
+    label: `P${number}`,
+    color: TRACK_COLORS[kit.pads.length % TRACK_COLORS.length],
+    pitch,
+    layers: [layer({})],
+  }
+}
+
+export function createDrumLayer(): DrumLayer {
+  return layer({})
+}
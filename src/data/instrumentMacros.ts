@@ -0,0 +1,70 @@
+import type { MacroRate, MacroSequence, MacroType } from '@/types/instrument'
+
+export interface MacroInfo {
+  type: MacroType
+  label: string        // Short tab label
+  name: string
+  min: number
+  max: number
+  defaultValues: number[]
+  hint: string         // What the values mean
+}
+
+// Sequences in FamiTracker order
+export const MACRO_TYPES: MacroInfo[] = [
+  { type: 'volume', label: 'VOL', name: 'Volume', min: 0, max: 15, defaultValues: [15, 12, 10, 8], hint: '0-15, replaces the envelope' },
+  { type: 'arpeggio', label: 'ARP', name: 'Arpeggio', min: -12, max: 24, defaultValues: [0, 4, 7], hint: 'Semitones added to the note' },
+  { type: 'pitch', label: 'PIT', name: 'Pitch', min: -64, max: 64, defaultValues: [0], hint: '1/16 semitones added every tick' },
+  { type: 'duty', label: 'DTY', name: 'Duty', min: 0, max: 3, defaultValues: [2], hint: '0: 12.5%, 1: 25%, 2: 50%, 3: 75%' },
+]
+
+export const MACRO_RATES: Array<{ value: MacroRate; label: string }> = [
+  { value: 60, label: 'NTSC' },
+  { value: 50, label: 'PAL' },
+]
+
+export const MAX_MACRO_LENGTH = 64
+
+export function getMacroInfo(type: MacroType): MacroInfo {
+  return MACRO_TYPES.find(m => m.type === type) ?? MACRO_TYPES[0]
+}
+
+/**
+ * Tracker notation for a sequence: values with "|" before the loop step and "/" after the release step,
+ * e.g. "15 12 | 10 8 / 4 0"
+ */
+export function formatMacro(sequence: MacroSequence): string {
+  const parts: string[] = []
+  sequence.values.forEach((value, i) => {
+    if (i === sequence.loop) parts.push('|')
+    parts.push(value.toString())
+    if (i === sequence.release) parts.push('/')
+  })
+  return parts.join(' ')
+}
+
+/**
+ * Read tracker notation back, holding values to the macro's range
+ * Returns null when there are no values
+ */
+export function parseMacro(type: MacroType, text: string): MacroSequence | null {
+  const { min, max } = getMacroInfo(type)
+  const sequence: MacroSequence = { values: [], loop: -1, release: -1 }
+
+  for (const token of text.replace(/([|/])/g, ' $1 ').split(/\s+/)) {
+    if (sequence.values.length >= MAX_MACRO_LENGTH) break
+    if (token === '|') {
+      sequence.loop = sequence.values.length
+    } else if (token === '/') {
+      sequence.release = sequence.values.length - 1
+    } else if (token !== '') {
+      const value = parseInt(token)
+      if (Number.isFinite(value)) sequence.values.push(Math.max(min, Math.min(max, value)))
+    }
+  }
+
+  if (sequence.values.length === 0) return null
+  // A marker after the last value points at nothing
+  if (sequence.loop >= sequence.values.length) sequence.loop = -1
+  return sequence
+}
@@ -0,0 +1,48 @@
+import type { NoteEffect, NoteEffectType } from '@/types/note'
+
+export interface NoteEffectInfo {
+  type: NoteEffectType
+  code: string         // Tracker command prefix
+  name: string
+  maxParam: number
+  hint: string         // What the parameter digits mean
+}
+
+// Commands in tracker order; the code plus hex parameter always makes three characters
+export const NOTE_EFFECTS: NoteEffectInfo[] = [
+  { type: 'arpeggio', code: '0', name: 'Arpeggio', maxParam: 0xFF, hint: 'x, y: semitones above the note' },
+  { type: 'slideUp', code: '1', name: 'Slide Up', maxParam: 0xFF, hint: 'xx: speed (16 = a semitone per tick)' },
+  { type: 'slideDown', code: '2', name: 'Slide Down', maxParam: 0xFF, hint: 'xx: speed (16 = a semitone per tick)' },
+  { type: 'portamento', code: '3', name: 'Portamento', maxParam: 0xFF, hint: 'xx: glide speed from the previous note' },
+  { type: 'volumeSlide', code: 'A', name: 'Volume Slide', maxParam: 0xFF, hint: 'x: up, y: down per tick' },
+  { type: 'cut', code: 'EC', name: 'Note Cut', maxParam: 0xF, hint: 'x: ticks before silence' },
+  { type: 'delay', code: 'ED', name: 'Note Delay', maxParam: 0xF, hint: 'x: ticks late' },
+  { type: 'duty', code: 'V', name: 'Duty Cycle', maxParam: 3, hint: '0: 12.5%, 1: 25%, 2: 50%, 3: 75%' },
+]
+
+// Every 16th step is split into ticks, like a tracker running at speed 6
+export const TICKS_PER_STEP = 6
+
+// Pulse widths selected by the duty command (NES order)
+export const DUTY_CYCLES = [0.125, 0.25, 0.5, 0.75]
+
+export function getNoteEffectInfo(type: NoteEffectType): NoteEffectInfo {
+  return NOTE_EFFECTS.find(e => e.type === type) ?? NOTE_EFFECTS[0]
+}
+
+/**
+ * Tracker notation for a command, e.g. "047", "108", "EC3"
+ */
+export function formatNoteEffect(effect: NoteEffect): string {
+  const { code } = getNoteEffectInfo(effect.type)
+  const digits = 3 - code.length
+  return code + effect.param.toString(16).toUpperCase().padStart(digits, '0')
+}
+
+/**
+ * Keep a parameter within what its command accepts
+ */
+export function clampEffectParam(type: NoteEffectType, param: number): number {
+  const value = Number.isFinite(param) ? Math.round(param) : 0
+  return Math.max(0, Math.min(getNoteEffectInfo(type).maxParam, value))
+}
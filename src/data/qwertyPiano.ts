@@ -0,0 +1,18 @@
+// Tracker-style piano on the computer keyboard, by physical key (KeyboardEvent.code)
+// Z row plays the lower octave with sharps on the row above; Q row continues an octave up
+const QWERTY_PIANO_KEYS: Record<string, number> = {
+  KeyZ: 0, KeyS: 1, KeyX: 2, KeyD: 3, KeyC: 4, KeyV: 5, KeyG: 6,
+  KeyB: 7, KeyH: 8, KeyN: 9, KeyJ: 10, KeyM: 11, Comma: 12, KeyL: 13,
+  Period: 14, Semicolon: 15, Slash: 16,
+  KeyQ: 12, Digit2: 13, KeyW: 14, Digit3: 15, KeyE: 16, KeyR: 17, Digit5: 18,
+  KeyT: 19, Digit6: 20, KeyY: 21, Digit7: 22, KeyU: 23, KeyI: 24, Digit9: 25,
+  KeyO: 26, Digit0: 27, KeyP: 28,
+}
+
+/**
+ * MIDI pitch for a key code, counting up from basePitch (null if not a piano key)
+ */
+export function qwertyKeyToPitch(code: string, basePitch: number): number | null {
+  const offset = QWERTY_PIANO_KEYS[code]
+  return offset === undefined ? null : basePitch + offset
+}
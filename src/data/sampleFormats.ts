@@ -0,0 +1,24 @@
+import type { SampleFormat } from '@/types/sample'
+
+export interface SampleFormatInfo {
+  format: SampleFormat
+  name: string
+  sampleRate: number | null   // Rate the sound is resampled to (null keeps the file's)
+  description: string
+}
+
+export const SAMPLE_FORMATS: SampleFormatInfo[] = [
+  { format: 'original', name: 'Original', sampleRate: null, description: 'Keep the sound as recorded' },
+  { format: 'dpcm', name: 'NES DPCM', sampleRate: 33144, description: '1-bit delta steps, like the NES sample channel' },
+  { format: 'gbWave', name: 'Game Boy Wave', sampleRate: 8192, description: '4-bit samples at 8 kHz, like the Game Boy wave channel' },
+]
+
+// Longest sound kept on import; samples are meant for hits and short clips
+export const MAX_SAMPLE_SECONDS = 4
+
+// Sample instruments play the recording as-is at this note
+export const DEFAULT_SAMPLE_ROOT = 60
+
+export function getSampleFormat(format: SampleFormat): SampleFormatInfo {
+  return SAMPLE_FORMATS.find(f => f.format === format) ?? SAMPLE_FORMATS[0]
+}
@@ -0,0 +1,8 @@
+// Note lengths offered for step entry, in 16th steps
+export const STEP_LENGTHS = [
+  { steps: 1, label: '1/16' },
+  { steps: 2, label: '1/8' },
+  { steps: 4, label: '1/4' },
+  { steps: 8, label: '1/2' },
+  { steps: 16, label: '1/1' },
+]
@@ -0,0 +1,46 @@
+import type { TimeSignature } from '@/types/project'
+
+// Meters offered in the transport bar picker
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 2, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 4, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 },
+]
+
+// Grid steps are 16th notes, so only these note values divide into whole steps
+export const TIME_SIGNATURE_DENOMINATORS = [2, 4, 8, 16]
+
+export function formatTimeSignature(signature: TimeSignature): string {
+  return `${signature.numerator}/${signature.denominator}`
+}
+
+/**
+ * 16th-note steps in one counted beat (a quarter in 3/4, an eighth in 6/8)
+ */
+export function stepsPerBeat(signature: TimeSignature): number {
+  return Math.max(1, Math.round(16 / signature.denominator))
+}
+
+/**
+ * 16th-note steps in one bar
+ */
+export function stepsPerBar(signature: TimeSignature): number {
+  return signature.numerator * stepsPerBeat(signature)
+}
+
+/**
+ * Length in steps as bars, with leftover steps when it is not a whole number of bars
+ */
+export function formatBars(steps: number, barSteps: number): string {
+  const bars = Math.floor(steps / barSteps)
+  const rest = steps % barSteps
+  const barText = `${bars} ${bars === 1 ? 'bar' : 'bars'}`
+
+  if (rest === 0) return barText
+  return bars === 0 ? `${rest} steps` : `${barText} +${rest}`
+}
@@ -0,0 +1,41 @@
+// Chip palette colors handed out to tracks in order (lime is kept for the playhead)
+export const TRACK_COLORS = ['cyan', 'purple', 'yellow', 'orange', 'pink', 'blue', 'red', 'green']
+
+// Literal class names so Tailwind keeps them in the build
+const BG_CLASSES: Record<string, string> = {
+  cyan: 'bg-chip-cyan',
+  purple: 'bg-chip-purple',
+  yellow: 'bg-chip-yellow',
+  orange: 'bg-chip-orange',
+  pink: 'bg-chip-pink',
+  blue: 'bg-chip-blue',
+  red: 'bg-chip-red',
+  green: 'bg-chip-green',
+}
+
+const TEXT_CLASSES: Record<string, string> = {
+  cyan: 'text-chip-cyan',
+  purple: 'text-chip-purple',
+  yellow: 'text-chip-yellow',
+  orange: 'text-chip-orange',
+  pink: 'text-chip-pink',
+  blue: 'text-chip-blue',
+  red: 'text-chip-red',
+  green: 'text-chip-green',
+}
+
+export function trackBgClass(color: string): string {
+  return BG_CLASSES[color] ?? 'bg-chip-gray'
+}
+
+export function trackTextClass(color: string): string {
+  return TEXT_CLASSES[color] ?? 'text-chip-white'
+}
+
+/**
+ * First palette color not used by an existing track (cycles when all are taken)
+ */
+export function nextTrackColor(usedColors: string[]): string {
+  return TRACK_COLORS.find(c => !usedColors.includes(c))
+    ?? TRACK_COLORS[usedColors.length % TRACK_COLORS.length]
+}
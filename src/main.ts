@@ -8,3 +8,13 @@ const pinia = createPinia()
 
 app.use(pinia)
 app.mount('#app')
+
+// Dev builds opened with ?fakemidi play a fake MIDI keyboard from the console:
+// fakeMidi.noteOn(60), fakeMidi.noteOff(60) once MIDI is connected
+if (import.meta.env.DEV && new URLSearchParams(window.location.search).has('fakemidi')) {
+  import('./composables/useMidiInput').then(({ createFakeMidiPort, setMidiAccessRequester }) => {
+    const port = createFakeMidiPort()
+    setMidiAccessRequester(port.requester)
+    Object.assign(window, { fakeMidi: port })
+  })
+}
@@ -5,50 +5,59 @@ import type {
   ADSRParams,
   EffectParams,
   WaveformType,
+  InstrumentMacros,
+  MacroRate,
+  MacroSequence,
+  MacroType,
 } from '@/types/instrument'
 import {
   DEFAULT_ADSR,
   DEFAULT_EFFECTS,
   DEFAULT_INSTRUMENT,
+  DEFAULT_DRUM_INSTRUMENT,
+  DEFAULT_TRACK_INSTRUMENTS,
 } from '@/types/instrument'
+import type { Track, TrackType } from '@/types/project'
+
+/**
+ * Copy a config so tracks never share nested objects
+ * Effects saved before an effect existed get its defaults
+ */
+function cloneInstrument(config: InstrumentConfig): InstrumentConfig {
+  return {
+    ...config,
+    adsr: { ...config.adsr },
+    effects: { ...DEFAULT_EFFECTS, ...config.effects, arpeggioPattern: [...config.effects.arpeggioPattern] },
+    macros: config.macros && cloneMacros(config.macros),
+  }
+}
+
+function cloneMacros(macros: InstrumentMacros): InstrumentMacros {
+  const copy: InstrumentMacros = { rate: macros.rate }
+  for (const type of ['volume', 'arpeggio', 'pitch', 'duty'] as const) {
+    const sequence = macros[type]
+    if (sequence) copy[type] = { ...sequence, values: [...sequence.values] }
+  }
+  return copy
+}
+
+/**
+ * Default sound for a track: the built-in track sounds by id, otherwise by type
+ */
+function getDefaultInstrument(trackId: string, type: TrackType): InstrumentConfig {
+  const config = DEFAULT_TRACK_INSTRUMENTS[trackId]
+    ?? (type === 'drums' ? DEFAULT_DRUM_INSTRUMENT : DEFAULT_INSTRUMENT)
+  return cloneInstrument(config)
+}
 
 export const useInstrumentStore = defineStore('instrument', () => {
   // State
   const selectedTrackId = ref('lead')
-  const instruments = ref<Record<string, InstrumentConfig>>({
-    lead: {
-      waveform: 'square',
-      adsr: { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.2 },
-      effects: { ...DEFAULT_EFFECTS },
-      pulseWidth: 0.5,
-      detune: 0,
-      gain: 0.8,
-    },
-    bass: {
-      waveform: 'triangle',
-      adsr: { attack: 0.02, decay: 0.2, sustain: 0.8, release: 0.3 },
-      effects: { ...DEFAULT_EFFECTS, glide: true },
-      pulseWidth: 0.5,
-      detune: 0,
-      gain: 0.9,
-    },
-    harmony: {
-      waveform: 'pulse',
-      adsr: { attack: 0.05, decay: 0.15, sustain: 0.6, release: 0.25 },
-      effects: { ...DEFAULT_EFFECTS },
-      pulseWidth: 0.25,
-      detune: 0,
-      gain: 0.6,
-    },
-    drums: {
-      waveform: 'noise',
-      adsr: { attack: 0.001, decay: 0.1, sustain: 0, release: 0.1 },
-      effects: { ...DEFAULT_EFFECTS },
-      pulseWidth: 0.5,
-      detune: 0,
-      gain: 1.0,
-    },
-  })
+  const instruments = ref<Record<string, InstrumentConfig>>(
+    Object.fromEntries(
+      Object.entries(DEFAULT_TRACK_INSTRUMENTS).map(([trackId, config]) => [trackId, cloneInstrument(config)])
+    )
+  )
 
   // Presets
   const presets = ref<Array<{ name: string; config: InstrumentConfig }>>([
@@ -125,6 +134,16 @@ export const useInstrumentStore = defineStore('instrument', () => {
     }
   }
 
+  /**
+   * Play an imported sample, transposed from its root note
+   */
+  function setSample(trackId: string, sampleId: string): void {
+    if (instruments.value[trackId]) {
+      instruments.value[trackId].waveform = 'sample'
+      instruments.value[trackId].sampleId = sampleId
+    }
+  }
+
   function updateADSR(trackId: string, updates: Partial<ADSRParams>): void {
     if (instruments.value[trackId]) {
       Object.assign(instruments.value[trackId].adsr, updates)
@@ -150,6 +169,30 @@ export const useInstrumentStore = defineStore('instrument', () => {
     }
   }
 
+  /**
+   * Set one macro sequence, or remove it with null
+   * Macros start at the NTSC tick rate; removing the last one drops them entirely
+   */
+  function setMacro(trackId: string, type: MacroType, sequence: MacroSequence | null): void {
+    const instrument = instruments.value[trackId]
+    if (!instrument) return
+
+    const macros: InstrumentMacros = { rate: 60, ...instrument.macros }
+    if (sequence) {
+      macros[type] = { ...sequence, values: [...sequence.values] }
+    } else {
+      delete macros[type]
+    }
+    instrument.macros = Object.keys(macros).some(key => key !== 'rate') ? macros : undefined
+  }
+
+  function setMacroRate(trackId: string, rate: MacroRate): void {
+    const instrument = instruments.value[trackId]
+    if (instrument?.macros) {
+      instrument.macros = { ...instrument.macros, rate }
+    }
+  }
+
   function setPulseWidth(trackId: string, width: number): void {
     if (instruments.value[trackId]) {
       instruments.value[trackId].pulseWidth = Math.max(0.1, Math.min(0.9, width))
@@ -190,6 +233,36 @@ export const useInstrumentStore = defineStore('instrument', () => {
     }
   }
 
+  function addInstrument(trackId: string, type: TrackType): void {
+    instruments.value[trackId] = getDefaultInstrument(trackId, type)
+  }
+
+  function removeInstrument(trackId: string): void {
+    delete instruments.value[trackId]
+  }
+
+  /**
+   * Give every track exactly one instrument and drop configs for removed tracks
+   * Configs come from preferred (e.g. a loaded project), then the current ones, then defaults
+   */
+  function syncWithTracks(tracks: Track[], preferred: Record<string, InstrumentConfig> = {}): void {
+    const synced: Record<string, InstrumentConfig> = {}
+    for (const track of tracks) {
+      const config = preferred[track.id] ?? instruments.value[track.id]
+      synced[track.id] = config ? cloneInstrument(config) : getDefaultInstrument(track.id, track.type)
+    }
+    instruments.value = synced
+
+    if (!synced[selectedTrackId.value] && tracks.length > 0) {
+      selectedTrackId.value = tracks[0].id
+    }
+  }
+
+  function resetAllInstruments(tracks: Track[]): void {
+    instruments.value = {}
+    syncWithTracks(tracks)
+  }
+
   function resetToDefault(trackId: string): void {
     if (instruments.value[trackId]) {
       instruments.value[trackId] = {
@@ -212,14 +285,21 @@ export const useInstrumentStore = defineStore('instrument', () => {
     // Actions
     selectTrack,
     setWaveform,
+    setSample,
     updateADSR,
     toggleEffect,
     setEffectParam,
+    setMacro,
+    setMacroRate,
     setPulseWidth,
     setDetune,
     setGain,
     applyPreset,
     copyInstrument,
+    addInstrument,
+    removeInstrument,
+    syncWithTracks,
+    resetAllInstruments,
     resetToDefault,
   }
 })
@@ -1,7 +1,39 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Project, Track, TimeSignature } from '@/types/project'
-import type { Note } from '@/types/note'
+import type { Pattern, Project, Track, TrackType, TimeSignature } from '@/types/project'
+import { DEFAULT_TRACKS } from '@/types/project'
+import type { Note, NoteEffect } from '@/types/note'
+import type { AutomationLane, AutomationTarget } from '@/types/automation'
+import type { DrumKit, DrumLayer, DrumPad } from '@/types/drumKit'
+import type { ConsoleProfileId } from '@/types/console'
+import { nextTrackColor } from '@/data/trackColors'
+import { clampEffectParam } from '@/data/noteEffects'
+import { clampAutomationValue } from '@/data/automationTargets'
+import { cloneDrumKit, createDefaultDrumKit, createDrumLayer, createDrumPad } from '@/data/drumKits'
+import { getConsoleProfile } from '@/data/consoleProfiles'
+import { TIME_SIGNATURE_DENOMINATORS, stepsPerBar as barSteps, stepsPerBeat as beatSteps } from '@/data/timeSignatures'
+import { Arrangement, type SongArrangement } from '@/audio/Arrangement'
+import { ConsoleChip } from '@/audio/ConsoleChip'
+
+const DEFAULT_PATTERN_LENGTH = 16
+
+function createPattern(patternName: string, length = DEFAULT_PATTERN_LENGTH): Pattern {
+  return { id: crypto.randomUUID(), name: patternName, length, notes: {} }
+}
+
+function cloneNotes(notes: Record<string, Note[]>): Record<string, Note[]> {
+  return Object.fromEntries(
+    Object.entries(notes).map(([trackId, trackNotes]) => [trackId, trackNotes.map(n => ({ ...n }))])
+  )
+}
+
+function clonePattern(pattern: Pattern): Pattern {
+  return {
+    ...pattern,
+    notes: cloneNotes(pattern.notes),
+    automation: pattern.automation?.map(lane => ({ ...lane, points: lane.points.map(pt => ({ ...pt })) })),
+  }
+}
 
 export const useProjectStore = defineStore('project', () => {
   // State
@@ -9,57 +41,71 @@ export const useProjectStore = defineStore('project', () => {
   const name = ref('Untitled Song')
   const tempo = ref(120)
   const timeSignature = ref<TimeSignature>({ numerator: 4, denominator: 4 })
-  const tracks = ref<Track[]>([
-    {
-      id: 'lead',
-      name: 'Lead',
-      type: 'synth',
-      color: 'cyan',
-      notes: [],
-      muted: false,
-      solo: false,
-      volume: 0.8,
-    },
-    {
-      id: 'bass',
-      name: 'Bass',
-      type: 'synth',
-      color: 'purple',
-      notes: [],
-      muted: false,
-      solo: false,
-      volume: 0.9,
-    },
-    {
-      id: 'harmony',
-      name: 'Harmony',
-      type: 'synth',
-      color: 'yellow',
-      notes: [],
-      muted: false,
-      solo: false,
-      volume: 0.6,
-    },
-    {
-      id: 'drums',
-      name: 'Drums',
-      type: 'drums',
-      color: 'orange',
-      notes: [],
-      muted: false,
-      solo: false,
-      volume: 1.0,
-    },
-  ])
+  const tracks = ref<Track[]>(DEFAULT_TRACKS.map(t => ({ ...t, notes: [] })))
   const loopEnabled = ref(true)
+  const introLength = ref(0)
   const loopStart = ref(0)
   const loopEnd = ref(16)
+  const initialPattern = createPattern('Pattern 1')
+  const patterns = ref<Pattern[]>([initialPattern])
+  const currentPatternId = ref(initialPattern.id)
+  const arrangement = ref<string[]>([initialPattern.id])
+  const arrangementLoop = ref(0)
+  const songMode = ref(false)
+  const drumKit = ref<DrumKit>(createDefaultDrumKit())
+  const consoleProfile = ref<ConsoleProfileId>('free')
   const isDirty = ref(false)
   const lastSaved = ref<Date | null>(null)
 
   // Getters
   const totalBeats = computed(() => loopEnd.value - loopStart.value)
 
+  // Grid steps (16th notes) per counted beat and per bar in the current meter
+  const stepsPerBeat = computed(() => beatSteps(timeSignature.value))
+  const stepsPerBar = computed(() => barSteps(timeSignature.value))
+
+  // Intro plays once from here, then playback cycles loopStart..loopEnd
+  const introStart = computed(() => loopStart.value - introLength.value)
+
+  const hardwareProfile = computed(() => getConsoleProfile(consoleProfile.value))
+
+  // Voice limits the edited pattern breaks under the console profile
+  const voiceWarnings = computed(() =>
+    hardwareProfile.value.channels.length > 0 ? ConsoleChip.checkVoices(tracks.value, hardwareProfile.value) : []
+  )
+
+  const currentPattern = computed(() =>
+    patterns.value.find(p => p.id === currentPatternId.value) ?? patterns.value[0]
+  )
+
+  // Patterns with the edited one's notes taken live from the tracks
+  const resolvedPatterns = computed<Pattern[]>(() =>
+    patterns.value.map(p => p.id === currentPatternId.value
+      ? { ...p, notes: Object.fromEntries(tracks.value.map(t => [t.id, t.notes])) }
+      : p
+    )
+  )
+
+  const songArrangement = computed<SongArrangement>(() => ({
+    patterns: resolvedPatterns.value,
+    order: arrangement.value,
+  }))
+
+  const songLength = computed(() => Arrangement.getLength(songArrangement.value))
+
+  // What playback and export cover: the arranged song, or the edited pattern's intro + loop
+  const playbackRegion = computed(() => {
+    if (!songMode.value) {
+      return { introStart: introStart.value, loopStart: loopStart.value, loopEnd: loopEnd.value }
+    }
+    const slots = Arrangement.getSlots(songArrangement.value)
+    return {
+      introStart: 0,
+      loopStart: slots[arrangementLoop.value]?.start ?? 0,
+      loopEnd: songLength.value,
+    }
+  })
+
   const getTrackById = computed(() => (trackId: string) =>
     tracks.value.find(t => t.id === trackId)
   )
@@ -82,6 +128,9 @@ export const useProjectStore = defineStore('project', () => {
     tracks.value.flatMap(t => t.notes.map(n => ({ ...n, trackId: t.id })))
   )
 
+  // Automation lanes of the edited pattern
+  const currentAutomation = computed<AutomationLane[]>(() => currentPattern.value.automation ?? [])
+
   // Actions
   function addNote(trackId: string, note: Omit<Note, 'id'>): string {
     const track = tracks.value.find(t => t.id === trackId)
@@ -116,6 +165,22 @@ export const useProjectStore = defineStore('project', () => {
     }
   }
 
+  /**
+   * Set or clear (null) a note's tracker effect command
+   */
+  function setNoteEffect(trackId: string, noteId: string, effect: NoteEffect | null): void {
+    const track = tracks.value.find(t => t.id === trackId)
+    const note = track?.notes.find(n => n.id === noteId)
+    if (!note) return
+
+    if (effect) {
+      note.effect = { type: effect.type, param: clampEffectParam(effect.type, effect.param) }
+    } else {
+      delete note.effect
+    }
+    isDirty.value = true
+  }
+
   function toggleNote(trackId: string, beat: number, pitch: number): Note | null {
     const track = tracks.value.find(t => t.id === trackId)
     if (!track) return null
@@ -145,11 +210,24 @@ export const useProjectStore = defineStore('project', () => {
     }
   }
 
+  function setName(newName: string): void {
+    name.value = newName.trim() || 'Untitled Song'
+    isDirty.value = true
+  }
+
   function setTempo(newTempo: number): void {
     tempo.value = Math.max(40, Math.min(240, newTempo))
     isDirty.value = true
   }
 
+  function setTimeSignature(signature: TimeSignature): void {
+    timeSignature.value = {
+      numerator: Math.max(1, Math.min(16, Math.round(signature.numerator))),
+      denominator: TIME_SIGNATURE_DENOMINATORS.includes(signature.denominator) ? signature.denominator : 4,
+    }
+    isDirty.value = true
+  }
+
   function setTrackMuted(trackId: string, muted: boolean): void {
     const track = tracks.value.find(t => t.id === trackId)
     if (track) {
@@ -174,9 +252,362 @@ export const useProjectStore = defineStore('project', () => {
   function setLoopRegion(start: number, end: number): void {
     loopStart.value = Math.max(0, start)
     loopEnd.value = Math.max(loopStart.value + 1, end)
+    introLength.value = Math.min(introLength.value, loopStart.value)
+    isDirty.value = true
+  }
+
+  function setIntroLength(length: number): void {
+    introLength.value = Math.max(0, Math.min(loopStart.value, length))
+    isDirty.value = true
+  }
+
+  function addTrack(type: TrackType, trackName?: string): Track {
+    const sameType = tracks.value.filter(t => t.type === type).length
+    const track: Track = {
+      id: crypto.randomUUID(),
+      name: trackName?.trim() || `${type === 'drums' ? 'Drums' : 'Synth'} ${sameType + 1}`,
+      type,
+      color: nextTrackColor(tracks.value.map(t => t.color)),
+      notes: [],
+      muted: false,
+      solo: false,
+      volume: 0.8,
+    }
+    // Under a console profile the track takes a free channel if one is left
+    if (hardwareProfile.value.channels.length > 0) {
+      track.channel = ConsoleChip.assignChannels([...tracks.value, track], hardwareProfile.value)[track.id]
+    }
+    tracks.value.push(track)
+    isDirty.value = true
+    return track
+  }
+
+  function removeTrack(trackId: string): void {
+    // A project always keeps at least one track
+    if (tracks.value.length <= 1) return
+
+    const index = tracks.value.findIndex(t => t.id === trackId)
+    if (index !== -1) {
+      tracks.value.splice(index, 1)
+      for (const pattern of patterns.value) {
+        delete pattern.notes[trackId]
+        pattern.automation = pattern.automation?.filter(lane => lane.trackId !== trackId)
+      }
+      isDirty.value = true
+    }
+  }
+
+  function moveTrack(trackId: string, toIndex: number): void {
+    const index = tracks.value.findIndex(t => t.id === trackId)
+    if (index === -1) return
+
+    const target = Math.max(0, Math.min(tracks.value.length - 1, toIndex))
+    if (target === index) return
+
+    const [track] = tracks.value.splice(index, 1)
+    tracks.value.splice(target, 0, track)
+    isDirty.value = true
+  }
+
+  function renameTrack(trackId: string, trackName: string): void {
+    const track = tracks.value.find(t => t.id === trackId)
+    if (track && trackName.trim()) {
+      track.name = trackName.trim()
+      isDirty.value = true
+    }
+  }
+
+  /**
+   * Switch the pattern shown in the editor, storing the tracks' notes in the old one
+   */
+  function editPattern(patternId: string): void {
+    const target = patterns.value.find(p => p.id === patternId)
+    if (!target || patternId === currentPatternId.value) return
+
+    const current = patterns.value.find(p => p.id === currentPatternId.value)
+    if (current) {
+      current.notes = Object.fromEntries(tracks.value.map(t => [t.id, t.notes]))
+    }
+
+    for (const track of tracks.value) {
+      track.notes = (target.notes[track.id] ?? []).map(n => ({ ...n }))
+    }
+    target.notes = {}
+    currentPatternId.value = patternId
+  }
+
+  function addPattern(length = currentPattern.value.length): Pattern {
+    const pattern = createPattern(`Pattern ${patterns.value.length + 1}`, length)
+    patterns.value.push(pattern)
+    isDirty.value = true
+    return pattern
+  }
+
+  function duplicatePattern(patternId: string): Pattern | null {
+    const source = resolvedPatterns.value.find(p => p.id === patternId)
+    if (!source) return null
+
+    const pattern: Pattern = {
+      ...createPattern(`${source.name} copy`, source.length),
+      notes: Object.fromEntries(
+        Object.entries(source.notes).map(([trackId, notes]) => [
+          trackId,
+          notes.map(n => ({ ...n, id: crypto.randomUUID() })),
+        ])
+      ),
+      automation: source.automation?.map(lane => ({
+        ...lane,
+        id: crypto.randomUUID(),
+        points: lane.points.map(pt => ({ ...pt })),
+      })),
+    }
+    patterns.value.push(pattern)
+    isDirty.value = true
+    return pattern
+  }
+
+  function removePattern(patternId: string): void {
+    // A project always keeps at least one pattern
+    if (patterns.value.length <= 1) return
+
+    const index = patterns.value.findIndex(p => p.id === patternId)
+    if (index === -1) return
+
+    if (patternId === currentPatternId.value) {
+      editPattern(patterns.value[index === 0 ? 1 : index - 1].id)
+    }
+    patterns.value.splice(index, 1)
+
+    arrangement.value = arrangement.value.filter(id => id !== patternId)
+    if (arrangement.value.length === 0) {
+      arrangement.value = [currentPatternId.value]
+    }
+    arrangementLoop.value = Math.min(arrangementLoop.value, arrangement.value.length - 1)
+    isDirty.value = true
+  }
+
+  function renamePattern(patternId: string, patternName: string): void {
+    const pattern = patterns.value.find(p => p.id === patternId)
+    if (pattern && patternName.trim()) {
+      pattern.name = patternName.trim()
+      isDirty.value = true
+    }
+  }
+
+  function setPatternLength(patternId: string, length: number): void {
+    const pattern = patterns.value.find(p => p.id === patternId)
+    if (pattern) {
+      pattern.length = Math.max(1, Math.round(length))
+      isDirty.value = true
+    }
+  }
+
+  /**
+   * Add a lane to the edited pattern; a target already automated keeps its lane
+   */
+  function addAutomationLane(target: AutomationTarget, trackId?: string): AutomationLane {
+    const pattern = currentPattern.value
+    const existing = pattern.automation?.find(l => l.target === target && l.trackId === trackId)
+    if (existing) return existing
+
+    const lane: AutomationLane = { id: crypto.randomUUID(), target, trackId, points: [] }
+    pattern.automation = [...(pattern.automation ?? []), lane]
+    isDirty.value = true
+    return lane
+  }
+
+  function removeAutomationLane(laneId: string): void {
+    const pattern = currentPattern.value
+    if (!pattern.automation?.some(l => l.id === laneId)) return
+
+    pattern.automation = pattern.automation.filter(l => l.id !== laneId)
+    isDirty.value = true
+  }
+
+  /**
+   * Place a breakpoint, replacing any already on that step
+   */
+  function setAutomationPoint(laneId: string, beat: number, value: number): void {
+    const lane = currentPattern.value.automation?.find(l => l.id === laneId)
+    if (!lane) return
+
+    const step = Math.round(beat)
+    lane.points = [
+      ...lane.points.filter(pt => pt.beat !== step),
+      { beat: step, value: clampAutomationValue(lane.target, value) },
+    ].sort((a, b) => a.beat - b.beat)
+    isDirty.value = true
+  }
+
+  function removeAutomationPoint(laneId: string, beat: number): void {
+    const lane = currentPattern.value.automation?.find(l => l.id === laneId)
+    if (!lane) return
+
+    lane.points = lane.points.filter(pt => pt.beat !== beat)
+    isDirty.value = true
+  }
+
+  function addToArrangement(patternId: string, index = arrangement.value.length): void {
+    if (!patterns.value.some(p => p.id === patternId)) return
+
+    arrangement.value.splice(Math.max(0, Math.min(arrangement.value.length, index)), 0, patternId)
+    isDirty.value = true
+  }
+
+  function removeFromArrangement(index: number): void {
+    // The song always plays at least one pattern
+    if (arrangement.value.length <= 1 || index < 0 || index >= arrangement.value.length) return
+
+    arrangement.value.splice(index, 1)
+    if (index < arrangementLoop.value || arrangementLoop.value >= arrangement.value.length) {
+      arrangementLoop.value = Math.max(0, arrangementLoop.value - 1)
+    }
+    isDirty.value = true
+  }
+
+  function moveInArrangement(fromIndex: number, toIndex: number): void {
+    const target = Math.max(0, Math.min(arrangement.value.length - 1, toIndex))
+    if (fromIndex < 0 || fromIndex >= arrangement.value.length || target === fromIndex) return
+
+    const [patternId] = arrangement.value.splice(fromIndex, 1)
+    arrangement.value.splice(target, 0, patternId)
+    isDirty.value = true
+  }
+
+  function setArrangementLoop(index: number): void {
+    arrangementLoop.value = Math.max(0, Math.min(arrangement.value.length - 1, index))
+    isDirty.value = true
+  }
+
+  function setSongMode(enabled: boolean): void {
+    songMode.value = enabled
+  }
+
+  /**
+   * Add a pad on a free note; returns null when every note already has a pad
+   */
+  function addDrumPad(): DrumPad | null {
+    const pad = createDrumPad(drumKit.value)
+    if (!pad) return null
+
+    drumKit.value.pads.push(pad)
+    isDirty.value = true
+    return pad
+  }
+
+  /**
+   * Remove a pad along with its notes on every drum track
+   */
+  function removeDrumPad(padId: string): void {
+    // A kit always keeps at least one pad
+    if (drumKit.value.pads.length <= 1) return
+
+    const index = drumKit.value.pads.findIndex(p => p.id === padId)
+    if (index !== -1) {
+      const [pad] = drumKit.value.pads.splice(index, 1)
+      moveDrumNotes(pad.pitch, null)
+      isDirty.value = true
+    }
+  }
+
+  /**
+   * Edit a pad's name, label, color or note; a note another pad already uses is refused
+   * The pad's notes on every drum track move with it to its new note
+   */
+  function updateDrumPad(padId: string, updates: Partial<Omit<DrumPad, 'id' | 'layers'>>): void {
+    const pad = drumKit.value.pads.find(p => p.id === padId)
+    if (!pad) return
+
+    if (updates.pitch !== undefined) {
+      if (!Number.isFinite(updates.pitch)) return
+      const pitch = Math.max(0, Math.min(127, Math.round(updates.pitch)))
+      if (drumKit.value.pads.some(p => p.id !== padId && p.pitch === pitch)) return
+      if (pitch !== pad.pitch) moveDrumNotes(pad.pitch, pitch)
+      updates = { ...updates, pitch }
+    }
+    Object.assign(pad, updates)
     isDirty.value = true
   }
 
+  /**
+   * Move drum notes from one pitch to another in every pattern, or delete them with null
+   */
+  function moveDrumNotes(fromPitch: number, toPitch: number | null): void {
+    const drumTrackIds = tracks.value.filter(t => t.type === 'drums').map(t => t.id)
+    const move = (notes: Note[]) => toPitch === null
+      ? notes.filter(n => n.pitch !== fromPitch)
+      : notes.map(n => (n.pitch === fromPitch ? { ...n, pitch: toPitch } : n))
+
+    for (const track of tracks.value) {
+      if (track.type === 'drums') track.notes = move(track.notes)
+    }
+    for (const pattern of patterns.value) {
+      for (const trackId of drumTrackIds) {
+        if (pattern.notes[trackId]) pattern.notes[trackId] = move(pattern.notes[trackId])
+      }
+    }
+  }
+
+  function addDrumLayer(padId: string): void {
+    const pad = drumKit.value.pads.find(p => p.id === padId)
+    if (pad) {
+      pad.layers.push(createDrumLayer())
+      isDirty.value = true
+    }
+  }
+
+  function removeDrumLayer(padId: string, layerIndex: number): void {
+    const pad = drumKit.value.pads.find(p => p.id === padId)
+    // A pad always keeps at least one layer
+    if (pad && pad.layers.length > 1 && pad.layers[layerIndex]) {
+      pad.layers.splice(layerIndex, 1)
+      isDirty.value = true
+    }
+  }
+
+  function updateDrumLayer(padId: string, layerIndex: number, updates: Partial<DrumLayer>): void {
+    const layer = drumKit.value.pads.find(p => p.id === padId)?.layers[layerIndex]
+    if (layer) {
+      Object.assign(layer, updates)
+      isDirty.value = true
+    }
+  }
+
+  /**
+   * Replace the kit with a copy of another (undo / redo)
+   */
+  function loadDrumKit(kit: DrumKit): void {
+    drumKit.value = cloneDrumKit(kit)
+  }
+
+  function resetDrumKit(): void {
+    drumKit.value = createDefaultDrumKit()
+    isDirty.value = true
+  }
+
+  /**
+   * Switch console emulation; tracks without a channel on the new console get a free one
+   */
+  function setConsoleProfile(profileId: ConsoleProfileId): void {
+    consoleProfile.value = profileId
+    const profile = getConsoleProfile(profileId)
+    if (profile.channels.length > 0) {
+      const assigned = ConsoleChip.assignChannels(tracks.value, profile)
+      for (const track of tracks.value) {
+        track.channel = assigned[track.id]
+      }
+    }
+    isDirty.value = true
+  }
+
+  function setTrackChannel(trackId: string, channelId: string | undefined): void {
+    const track = tracks.value.find(t => t.id === trackId)
+    if (track) {
+      track.channel = channelId
+      isDirty.value = true
+    }
+  }
+
   function clearTrack(trackId: string): void {
     const track = tracks.value.find(t => t.id === trackId)
     if (track) {
@@ -185,6 +616,14 @@ export const useProjectStore = defineStore('project', () => {
     }
   }
 
+  function setTrackNotes(trackId: string, notes: Array<Omit<Note, 'id'>>): void {
+    const track = tracks.value.find(t => t.id === trackId)
+    if (track) {
+      track.notes = notes.map(n => ({ id: crypto.randomUUID(), ...n }))
+      isDirty.value = true
+    }
+  }
+
   function clearAllTracks(): void {
     for (const track of tracks.value) {
       track.notes = []
@@ -202,12 +641,45 @@ export const useProjectStore = defineStore('project', () => {
       notes: t.notes.map(n => ({ ...n })),
     }))
     loopEnabled.value = project.loopEnabled
+    introLength.value = project.introLength ?? 0
     loopStart.value = project.loopStart
     loopEnd.value = project.loopEnd
+    loadPatterns(project)
+    songMode.value = project.songMode ?? false
+    drumKit.value = project.drumKit ? cloneDrumKit(project.drumKit) : createDefaultDrumKit()
+    consoleProfile.value = project.consoleProfile ?? 'free'
     isDirty.value = false
     lastSaved.value = project.updatedAt ? new Date(project.updatedAt) : null
   }
 
+  /**
+   * Restore patterns and the arrangement (the edited pattern's notes are in tracks);
+   * projects saved before patterns existed become a single pattern holding their notes
+   */
+  function loadPatterns(
+    project: Pick<Project, 'tracks' | 'loopEnd' | 'patterns' | 'currentPatternId' | 'arrangement' | 'arrangementLoop'>
+  ): void {
+    const loaded = (project.patterns ?? []).map(clonePattern)
+
+    if (loaded.length === 0) {
+      const lastBeat = Math.max(
+        project.loopEnd,
+        ...project.tracks.flatMap(t => t.notes.map(n => n.startBeat + n.duration))
+      )
+      loaded.push(createPattern('Pattern 1', Math.ceil(lastBeat / DEFAULT_PATTERN_LENGTH) * DEFAULT_PATTERN_LENGTH))
+    }
+
+    patterns.value = loaded
+    currentPatternId.value = loaded.some(p => p.id === project.currentPatternId)
+      ? project.currentPatternId!
+      : loaded[0].id
+    currentPattern.value.notes = {}
+
+    const order = (project.arrangement ?? []).filter(id => loaded.some(p => p.id === id))
+    arrangement.value = order.length > 0 ? order : [currentPatternId.value]
+    arrangementLoop.value = Math.max(0, Math.min(arrangement.value.length - 1, project.arrangementLoop ?? 0))
+  }
+
   function exportToJSON(): Project {
     return {
       id: id.value,
@@ -219,8 +691,16 @@ export const useProjectStore = defineStore('project', () => {
         notes: t.notes.map(n => ({ ...n })),
       })),
       loopEnabled: loopEnabled.value,
+      introLength: introLength.value,
       loopStart: loopStart.value,
       loopEnd: loopEnd.value,
+      patterns: resolvedPatterns.value.map(clonePattern),
+      currentPatternId: currentPatternId.value,
+      arrangement: [...arrangement.value],
+      arrangementLoop: arrangementLoop.value,
+      songMode: songMode.value,
+      drumKit: cloneDrumKit(drumKit.value),
+      consoleProfile: consoleProfile.value,
       updatedAt: new Date().toISOString(),
     }
   }
@@ -230,15 +710,19 @@ export const useProjectStore = defineStore('project', () => {
     name.value = 'Untitled Song'
     tempo.value = 120
     timeSignature.value = { numerator: 4, denominator: 4 }
-    tracks.value = [
-      { id: 'lead', name: 'Lead', type: 'synth', color: 'cyan', notes: [], muted: false, solo: false, volume: 0.8 },
-      { id: 'bass', name: 'Bass', type: 'synth', color: 'purple', notes: [], muted: false, solo: false, volume: 0.9 },
-      { id: 'harmony', name: 'Harmony', type: 'synth', color: 'yellow', notes: [], muted: false, solo: false, volume: 0.6 },
-      { id: 'drums', name: 'Drums', type: 'drums', color: 'orange', notes: [], muted: false, solo: false, volume: 1.0 },
-    ]
+    tracks.value = DEFAULT_TRACKS.map(t => ({ ...t, notes: [] }))
     loopEnabled.value = true
+    introLength.value = 0
     loopStart.value = 0
     loopEnd.value = 16
+    const pattern = createPattern('Pattern 1')
+    patterns.value = [pattern]
+    currentPatternId.value = pattern.id
+    arrangement.value = [pattern.id]
+    arrangementLoop.value = 0
+    songMode.value = false
+    drumKit.value = createDefaultDrumKit()
+    consoleProfile.value = 'free'
     isDirty.value = false
     lastSaved.value = null
   }
@@ -251,31 +735,85 @@ export const useProjectStore = defineStore('project', () => {
     timeSignature,
     tracks,
     loopEnabled,
+    introLength,
     loopStart,
     loopEnd,
+    patterns,
+    currentPatternId,
+    arrangement,
+    arrangementLoop,
+    songMode,
+    drumKit,
+    consoleProfile,
     isDirty,
     lastSaved,
 
     // Getters
     totalBeats,
+    stepsPerBeat,
+    stepsPerBar,
+    introStart,
+    hardwareProfile,
+    voiceWarnings,
+    currentPattern,
+    resolvedPatterns,
+    songArrangement,
+    songLength,
+    playbackRegion,
     getTrackById,
     getNotesForBeat,
     getNoteAtPosition,
     allNotes,
+    currentAutomation,
 
     // Actions
     addNote,
     removeNote,
     updateNote,
+    setNoteEffect,
     toggleNote,
+    setName,
     setTempo,
+    setTimeSignature,
     setTrackMuted,
     setTrackSolo,
     setTrackVolume,
     setLoopRegion,
+    setIntroLength,
+    addTrack,
+    removeTrack,
+    moveTrack,
+    renameTrack,
+    editPattern,
+    addPattern,
+    duplicatePattern,
+    removePattern,
+    renamePattern,
+    setPatternLength,
+    addAutomationLane,
+    removeAutomationLane,
+    setAutomationPoint,
+    removeAutomationPoint,
+    addToArrangement,
+    removeFromArrangement,
+    moveInArrangement,
+    setArrangementLoop,
+    setSongMode,
+    addDrumPad,
+    removeDrumPad,
+    updateDrumPad,
+    addDrumLayer,
+    removeDrumLayer,
+    updateDrumLayer,
+    resetDrumKit,
+    loadDrumKit,
+    setConsoleProfile,
+    setTrackChannel,
     clearTrack,
+    setTrackNotes,
     clearAllTracks,
     loadFromJSON,
+    loadPatterns,
     exportToJSON,
     newProject,
   }
@@ -10,6 +10,8 @@ export const useTransportStore = defineStore('transport', () => {
   const isRecording = ref(false)
   const masterVolume = ref(0.8)
   const isMetronomeEnabled = ref(false)
+  const metronomeVolume = ref(0.6)
+  const countInBars = ref(0)   // Bars of clicks before playback starts (0 = off)
 
   // Getters
   const isPlaying = computed(() => playbackState.value === 'playing')
@@ -50,6 +52,14 @@ export const useTransportStore = defineStore('transport', () => {
     isMetronomeEnabled.value = !isMetronomeEnabled.value
   }
 
+  function setMetronomeVolume(volume: number): void {
+    metronomeVolume.value = Math.max(0, Math.min(1, volume))
+  }
+
+  function setCountInBars(bars: number): void {
+    countInBars.value = Math.max(0, Math.min(2, Math.round(bars)))
+  }
+
   function setRecording(recording: boolean): void {
     isRecording.value = recording
   }
@@ -61,6 +71,8 @@ export const useTransportStore = defineStore('transport', () => {
     isRecording,
     masterVolume,
     isMetronomeEnabled,
+    metronomeVolume,
+    countInBars,
 
     // Getters
     isPlaying,
@@ -75,6 +87,8 @@ export const useTransportStore = defineStore('transport', () => {
     setCurrentBeat,
     setMasterVolume,
     toggleMetronome,
+    setMetronomeVolume,
+    setCountInBars,
     setRecording,
   }
 })
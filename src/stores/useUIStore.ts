@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { UIMode, EditTool, GridCell, Notification } from '@/types/ui'
+import type { NoteEffect } from '@/types/note'
 
 // Clipboard types
 interface ClipboardNote {
@@ -8,6 +9,7 @@ interface ClipboardNote {
   startBeat: number
   duration: number
   velocity: number
+  effect?: NoteEffect
 }
 
 interface ClipboardData {
@@ -33,7 +35,6 @@ export const useUIStore = defineStore('ui', () => {
   const clipboard = ref<ClipboardData | null>(null)
 
   // Grid display settings
-  const beatsPerBar = ref(4)
   const visibleOctaves = ref(3) // Show 3 octaves by default
   const startOctave = ref(3)    // Start from octave 3 (C3-B5)
 
@@ -174,7 +175,6 @@ export const useUIStore = defineStore('ui', () => {
     hoveredCell,
     selectedNotes,
     notifications,
-    beatsPerBar,
     visibleOctaves,
     startOctave,
     isPasteMode,
@@ -0,0 +1,21 @@
+/**
+ * What an automation lane changes over time
+ * Tempo is song-wide; every other target belongs to one track
+ */
+export type AutomationTarget = 'tempo' | 'volume' | 'pulseWidth' | 'detune' | 'bitcrushBits' | 'bitcrushFreq'
+
+export interface AutomationPoint {
+  beat: number       // Step position in the pattern (16th notes)
+  value: number      // In the target's own units (BPM, 0-1, cents, bits...)
+}
+
+/**
+ * Breakpoints joined by straight lines; the first and last values hold
+ * before and after them
+ */
+export interface AutomationLane {
+  id: string
+  target: AutomationTarget
+  trackId?: string   // Unset for tempo
+  points: AutomationPoint[]   // Sorted by beat, at most one per beat
+}
@@ -0,0 +1,50 @@
+import type { WaveformType } from './instrument'
+
+/**
+ * Hardware the project is limited to ('free' lifts every limit)
+ */
+export type ConsoleProfileId = 'free' | 'nes' | 'gameboy'
+
+export type ChannelKind = 'pulse' | 'triangle' | 'wave' | 'noise' | 'dpcm'
+
+export interface ConsoleChannel {
+  id: string
+  name: string
+  kind: ChannelKind
+  divider?: number     // Tone channels: frequency = clock / (divider * period)
+  minPeriod?: number   // Shortest period the channel plays (the longest is 2048)
+}
+
+/**
+ * A sound chip's channel set and the limits its voices follow
+ */
+export interface ConsoleProfile {
+  id: ConsoleProfileId
+  name: string
+  chip: string                 // Sound chip name shown in the UI
+  channels: ConsoleChannel[]
+  clock: number                // Hz driving the period registers
+  dutyCycles: number[]         // Pulse widths the pulse channels can play
+  volumeSteps: number          // Volume levels including silence
+  frameRate: number            // Envelope steps per second
+  driverRate: number           // Sound driver updates per second (the video frame rate)
+  noiseRates: number[]         // Noise LFSR clock rates in Hz, fastest first
+  shortNoiseSteps: number      // Length of the short (tonal) noise sequence
+}
+
+/**
+ * What a voice is restricted to when a console profile is active
+ */
+export interface HardwareVoice {
+  profile: ConsoleProfile
+  channel: ConsoleChannel
+}
+
+// Waveform each channel kind produces, so instruments follow their channel
+export const CHANNEL_WAVEFORMS: Record<ChannelKind, WaveformType> = {
+  pulse: 'pulse',
+  triangle: 'triangle',
+  wave: 'triangle',
+  noise: 'noise',
+  dpcm: 'sample',
+}
@@ -0,0 +1,37 @@
+/**
+ * Sound source of one drum layer: a noise burst, a tone or an imported sample
+ */
+export type DrumLayerSource = 'noise' | 'sine' | 'triangle' | 'square' | 'sawtooth' | 'sample'
+
+export type DrumFilterType = 'none' | 'lowpass' | 'highpass' | 'bandpass'
+
+export interface DrumLayer {
+  source: DrumLayerSource
+  level: number          // 0-1, scaled by the hit's velocity
+  pitch: number          // Tone start frequency in Hz (ignored by noise and samples)
+  pitchEnd: number       // Frequency the tone sweeps to
+  sweep: number          // Seconds the pitch sweep takes
+  decay: number          // Seconds until the layer fades out
+  delay: number          // Seconds after the hit the layer starts
+  filter: DrumFilterType
+  filterFreq: number     // Hz
+  filterQ: number
+  sampleId?: string      // Sound played by a 'sample' layer
+}
+
+/**
+ * One drum sound, played by notes at its pitch
+ */
+export interface DrumPad {
+  id: string
+  name: string
+  label: string          // Short grid row label
+  color: string          // Chip palette name, as for tracks
+  pitch: number          // MIDI note (General MIDI drum map for the defaults)
+  layers: DrumLayer[]
+}
+
+// Drum sounds of a project, shared by all its drum tracks
+export interface DrumKit {
+  pads: DrumPad[]
+}
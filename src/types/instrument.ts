@@ -1,4 +1,4 @@
-export type WaveformType = 'square' | 'triangle' | 'sawtooth' | 'pulse' | 'noise'
+export type WaveformType = 'square' | 'triangle' | 'sawtooth' | 'pulse' | 'noise' | 'sample'
 
 export interface ADSRParams {
   attack: number   // 0-2 seconds
@@ -19,15 +19,41 @@ export interface EffectParams {
   bitcrush: boolean
   bitcrushBits: number       // 1-16
   bitcrushFreq: number       // Sample rate reduction
+  pwm: boolean
+  pwmDepth: number           // Pulse width swing either side of pulseWidth (0-0.45)
+  pwmSpeed: number           // Hz
+}
+
+export type MacroType = 'volume' | 'arpeggio' | 'pitch' | 'duty'
+
+/**
+ * One value per tick; loop and release are step indexes (-1 = none)
+ */
+export interface MacroSequence {
+  values: number[]
+  loop: number       // Step the sequence jumps back to after its last one
+  release: number    // Step a held note waits at (looping from loop if loop is earlier) until released
+}
+
+export type MacroRate = 60 | 50  // Ticks per second: NTSC or PAL
+
+export interface InstrumentMacros {
+  rate: MacroRate
+  volume?: MacroSequence     // 0-15, replaces the ADSR envelope
+  arpeggio?: MacroSequence   // Semitones added to the note
+  pitch?: MacroSequence      // 1/16 semitones added to the pitch every tick (it adds up)
+  duty?: MacroSequence       // Pulse duty (0 = 12.5%, 1 = 25%, 2 = 50%, 3 = 75%)
 }
 
 export interface InstrumentConfig {
   waveform: WaveformType
   adsr: ADSRParams
   effects: EffectParams
-  pulseWidth: number  // 0-1 (for pulse wave duty cycle)
+  pulseWidth: number  // 0.1-0.9 (for pulse wave duty cycle)
   detune: number      // Cents (-100 to 100)
   gain: number        // 0-1
+  sampleId?: string   // Imported sound played by the 'sample' waveform
+  macros?: InstrumentMacros  // Per-tick sequences, tracker style
 }
 
 export const DEFAULT_ADSR: ADSRParams = {
@@ -49,6 +75,9 @@ export const DEFAULT_EFFECTS: EffectParams = {
   bitcrush: false,
   bitcrushBits: 8,
   bitcrushFreq: 0.5,
+  pwm: false,
+  pwmDepth: 0.3,
+  pwmSpeed: 2,
 }
 
 export const DEFAULT_INSTRUMENT: InstrumentConfig = {
@@ -59,3 +88,41 @@ export const DEFAULT_INSTRUMENT: InstrumentConfig = {
   detune: 0,
   gain: 0.8,
 }
+
+export const DEFAULT_DRUM_INSTRUMENT: InstrumentConfig = {
+  waveform: 'noise',
+  adsr: { attack: 0.001, decay: 0.1, sustain: 0, release: 0.1 },
+  effects: { ...DEFAULT_EFFECTS },
+  pulseWidth: 0.5,
+  detune: 0,
+  gain: 1.0,
+}
+
+// Sounds for the default Lead / Bass / Harmony / Drums tracks
+export const DEFAULT_TRACK_INSTRUMENTS: Record<string, InstrumentConfig> = {
+  lead: {
+    waveform: 'square',
+    adsr: { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.2 },
+    effects: { ...DEFAULT_EFFECTS },
+    pulseWidth: 0.5,
+    detune: 0,
+    gain: 0.8,
+  },
+  bass: {
+    waveform: 'triangle',
+    adsr: { attack: 0.02, decay: 0.2, sustain: 0.8, release: 0.3 },
+    effects: { ...DEFAULT_EFFECTS, glide: true },
+    pulseWidth: 0.5,
+    detune: 0,
+    gain: 0.9,
+  },
+  harmony: {
+    waveform: 'pulse',
+    adsr: { attack: 0.05, decay: 0.15, sustain: 0.6, release: 0.25 },
+    effects: { ...DEFAULT_EFFECTS },
+    pulseWidth: 0.25,
+    detune: 0,
+    gain: 0.6,
+  },
+  drums: DEFAULT_DRUM_INSTRUMENT,
+}
@@ -1,9 +1,28 @@
+/**
+ * Tracker-style per-note command, shown in the grid as its tracker code (0xy, 1xx, ...)
+ */
+export type NoteEffectType =
+  | 'arpeggio'     // 0xy: cycle root, +x and +y semitones every tick
+  | 'slideUp'      // 1xx: bend up xx/16 semitones per tick
+  | 'slideDown'    // 2xx: bend down xx/16 semitones per tick
+  | 'portamento'   // 3xx: glide from the previous note at xx/16 semitones per tick
+  | 'volumeSlide'  // Axy: volume up x/16 or down y/16 per tick
+  | 'cut'          // ECx: silence the note after x ticks
+  | 'delay'        // EDx: start the note x ticks late
+  | 'duty'         // Vxx: pulse duty cycle (0 = 12.5%, 1 = 25%, 2 = 50%, 3 = 75%)
+
+export interface NoteEffect {
+  type: NoteEffectType
+  param: number      // 0-255, the command's two hex digits
+}
+
 export interface Note {
   id: string
   pitch: number      // MIDI note number (0-127)
   startBeat: number  // Beat position (0-based, in 16th notes)
   duration: number   // Duration in beats (16th notes)
   velocity: number   // 0-1
+  effect?: NoteEffect
 }
 
 export interface ScheduledNote extends Note {
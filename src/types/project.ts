@@ -1,4 +1,7 @@
 import type { Note } from './note'
+import type { AutomationLane } from './automation'
+import type { DrumKit } from './drumKit'
+import type { ConsoleProfileId } from './console'
 
 export type TrackType = 'synth' | 'drums'
 
@@ -11,6 +14,7 @@ export interface Track {
   muted: boolean
   solo: boolean
   volume: number         // 0-1
+  channel?: string       // Console channel id the track plays on under a console profile
 }
 
 export interface TimeSignature {
@@ -18,6 +22,15 @@ export interface TimeSignature {
   denominator: number
 }
 
+// Reusable block of notes for every track, placed in the song by the arrangement
+export interface Pattern {
+  id: string
+  name: string
+  length: number                   // In 16th steps
+  notes: Record<string, Note[]>    // Per track id, beats relative to the pattern start
+  automation?: AutomationLane[]    // Breakpoints relative to the pattern start
+}
+
 export interface Project {
   id: string
   name: string
@@ -25,8 +38,16 @@ export interface Project {
   timeSignature: TimeSignature
   tracks: Track[]
   loopEnabled: boolean
+  introLength?: number   // Beats before loopStart that play once (0 = no intro)
   loopStart: number      // Beat position
   loopEnd: number        // Beat position
+  patterns?: Pattern[]
+  currentPatternId?: string   // Pattern being edited; its notes live in tracks[].notes
+  arrangement?: string[]      // Pattern ids in play order
+  arrangementLoop?: number    // Arrangement slot the song loops back to
+  songMode?: boolean          // Play the arrangement instead of the edited pattern
+  drumKit?: DrumKit           // Sounds of the drum tracks (the default kit when absent)
+  consoleProfile?: ConsoleProfileId  // Hardware the project is limited to
   createdAt?: string
   updatedAt?: string
 }
@@ -38,6 +59,11 @@ export interface ProjectMeta {
   updatedAt: string
 }
 
+// Project library entry: the project with the instrument settings it was saved with
+export interface SavedProject extends Project {
+  instruments?: Record<string, import('./instrument').InstrumentConfig>
+}
+
 // Full template export including instruments
 export interface ProjectTemplate {
   version: string
@@ -94,6 +120,7 @@ export const DEFAULT_PROJECT: Omit<Project, 'id'> = {
   timeSignature: { numerator: 4, denominator: 4 },
   tracks: DEFAULT_TRACKS.map(t => ({ ...t, notes: [] })),
   loopEnabled: true,
+  introLength: 0,
   loopStart: 0,
   loopEnd: 16,  // 4 bars of 4/4 at 16th note resolution
 }
@@ -0,0 +1,20 @@
+/**
+ * How an imported sound was reduced on import
+ */
+export type SampleFormat = 'original' | 'dpcm' | 'gbWave'
+
+/**
+ * A user-imported sound, played by sample drum layers and sample instruments
+ */
+export interface Sample {
+  id: string
+  name: string
+  format: SampleFormat
+  sampleRate: number
+  rootPitch: number      // MIDI note at which the sample plays at its recorded speed
+  data: Float32Array     // Mono PCM, -1 to 1
+  createdAt: string
+}
+
+// What the sample pickers list, without the audio
+export type SampleMeta = Omit<Sample, 'data'>